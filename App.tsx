@@ -1,8 +1,73 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Camera, Upload, Layers, Ruler, ChevronRight, RefreshCw, Download, FileText, Trash2, Globe, AlertCircle, Info, HelpCircle } from 'lucide-react';
-import { ImageUpload, VisualizerState, ReferenceType, Point, Box } from './types';
-import { analyzeMarkedRegions, generateMaskedVisualization } from './services/geminiService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Camera, Upload, Layers, Ruler, ChevronRight, RefreshCw, Download, FileText, Trash2, Globe, AlertCircle, Info, HelpCircle, Scan, Scissors, X, FolderOpen, Eye, EyeOff, Sparkles, Check, Pencil } from 'lucide-react';
+import { ImageUpload, VisualizerState, ReferenceType, Point, Box, CalibrationData, Exclusion, ExclusionType, StripPlanOptions, ProjectSummary, VisualizerProject, WallpaperDesign, WallpaperMetadata, PatternSpec, MatchType, RoomPhoto, ProjectCalibration, PricingSettings, RenderSize, DesignVariant, Preferences, Language, UnitSystem, Pipeline, StripPlan } from './types';
+import { analyzeMarkedRegions, detectWallRegions, generateMaskedVisualization } from './services/visualizerService';
+import { getAIProvider } from './services/aiProvider';
+import { assessCalibration } from './services/validationService';
+import { classifyError, describeError } from './services/errorService';
+import { DEFAULT_WALLPAPER, checkWallHeights, estimateRoom } from './services/estimationService';
+import { DEFAULT_STRIP_PLAN_OPTIONS, photoWindows, planRoomStrips } from './services/stripPlanService';
+import { downloadRender, openPrintableReport } from './services/exportService';
+import { RENDER_SIZE_PX, ingestImage, toDataUrl } from './services/imageService';
+import { PROJECT_VERSION, createProjectId, deleteProject, exportProjectFile, importProjectFile, listProjects, loadProject, saveProject } from './services/projectService';
+import { DEFAULT_PRICING, buildQuote } from './services/pricingService';
+import { deleteDesign, exportCatalogFile, importCatalogFile, listDesigns, saveDesign, toWallpaperMetadata } from './services/catalogService';
+import { LANGUAGES, MessageKey, t } from './services/i18nService';
+import { formatArea, formatLength, formatScale, fromDisplayLength, lengthUnit, toDisplayLength } from './services/unitService';
+import { applyPreferences, defaultPreferences, loadPreferences, savePreferences } from './services/preferencesService';
+import { advanceStage, endRunning, endStage, idlePipeline, isRunning, startStage } from './services/pipelineService';
+import HangingPlan from './components/HangingPlan';
+import DesignCatalog, { DesignDraft } from './components/DesignCatalog';
+import DesignComparison from './components/DesignComparison';
+import BeforeAfter from './components/BeforeAfter';
+import CameraCapture from './components/CameraCapture';
+import PanoramaPlacement from './components/PanoramaPlacement';
+import PipelineProgress from './components/PipelineProgress';
+import ProjectPanel from './components/ProjectPanel';
+import QuotePanel from './components/QuotePanel';
+import WallpaperPreview from './components/WallpaperPreview';
+import { A4_LONG_EDGE_CM, applyExclusions, boxFromCorners, computePixelsPerCm, findParentRegion, hasLocalScale, measureBox, moveBoxCorner, regionCorners, sameOutline, translateBox } from './services/geometryService';
+
+type CanvasMode = 'regions' | 'calibrate' | 'quad' | 'exclusion';
+
+type DragState =
+  | { kind: 'move'; index: number; origin: Point; original: Box; moved: boolean }
+  | { kind: 'resize'; index: number; corner: number; original: Box };
+
+// Pointer travel, in screen pixels, before pressing a region turns from selecting it into moving it
+const MOVE_THRESHOLD_PX = 4;
+
+const DEFAULT_PATTERN_SPEC: PatternSpec = { pattern_type: 'panoramic', pattern_repeat_cm: 64, match_type: 'straight' };
+
+const referenceHeightCm = (reference: ProjectCalibration) =>
+  reference.reference_type === ReferenceType.A4_PAPER ? A4_LONG_EDGE_CM : reference.ref_height_cm;
+
+// Scale derived from a photo's user-drawn reference edge; null until both ends are placed and the photo has loaded
+function photoCalibration(photo: RoomPhoto): CalibrationData | null {
+  const { segment, reference_type } = photo.calibration;
+  if (!segment || !photo.image_size) return null;
+  const realWorldCm = referenceHeightCm(photo.calibration);
+  const pixelsPerCm = computePixelsPerCm(segment, photo.image_size, realWorldCm);
+  if (!pixelsPerCm) return null;
+  return {
+    reference_type,
+    real_world_cm: realWorldCm,
+    segment,
+    pixels_per_cm: pixelsPerCm,
+    image_size: photo.image_size
+  };
+}
+
+const wallLabel = (photoCount: number, photoIndex: number | undefined, regionIndex: number) =>
+  photoCount > 1 ? t('common.photoWall', { photo: (photoIndex ?? 0) + 1, wall: regionIndex + 1 }) : t('common.wall', { n: regionIndex + 1 });
+
+// Takes offered per photo when asking for several renders to choose from
+const RENDER_COUNTS = [1, 2, 3, 4];
+
+// Keyboard nudge step in percent of the photo; Shift moves further
+const NUDGE_STEP = 0.5;
+const NUDGE_STEP_LARGE = 2;
 
 declare global {
   interface AIStudio {
@@ -15,29 +80,147 @@ declare global {
 }
 
 const App: React.FC = () => {
-  const [roomImage, setRoomImage] = useState<ImageUpload | null>(null);
+  const [photos, setPhotos] = useState<RoomPhoto[]>([]);
+  const [activePhoto, setActivePhoto] = useState(0);
   const [wallpaperImage, setWallpaperImage] = useState<ImageUpload | null>(null);
-  const [refType, setRefType] = useState<ReferenceType>(ReferenceType.A4_PAPER);
-  const [refHeight, setRefHeight] = useState<number>(210);
   
   const [isDrawing, setIsDrawing] = useState(false);
   const [startPoint, setStartPoint] = useState<Point | null>(null);
   const [currentBox, setCurrentBox] = useState<Box | null>(null);
-  const [completedBoxes, setCompletedBoxes] = useState<Box[]>([]);
   const [mousePos, setMousePos] = useState<Point | null>(null);
+  const [canvasMode, setCanvasMode] = useState<CanvasMode>('regions');
+  const [calibrationStart, setCalibrationStart] = useState<Point | null>(null);
+  const [pendingCorners, setPendingCorners] = useState<Point[]>([]);
+  const [exclusionType, setExclusionType] = useState<ExclusionType>(ExclusionType.WINDOW);
+  const [selectedBox, setSelectedBox] = useState<number | null>(null);
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  const [showOutlines, setShowOutlines] = useState(false);
   const imgRef = useRef<HTMLImageElement>(null);
 
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [visualizedImage, setVisualizedImage] = useState<string | null>(null);
-  const [metadata, setMetadata] = useState<VisualizerState | null>(null);
+  const [pipeline, setPipeline] = useState<Pipeline>(idlePipeline);
+  const [now, setNow] = useState(Date.now());
+  const abortRef = useRef<AbortController | null>(null);
+  const isAnalyzing = isRunning(pipeline, 'analysis');
+  const isGenerating = isRunning(pipeline, 'render');
+  const [isDetecting, setIsDetecting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [keySelected, setKeySelected] = useState(true);
+  const provider = getAIProvider();
+  const [stripPlanOptions, setStripPlanOptions] = useState<StripPlanOptions>(DEFAULT_STRIP_PLAN_OPTIONS);
+  const [pricing, setPricing] = useState<PricingSettings>(DEFAULT_PRICING);
+  const [renderSize, setRenderSize] = useState<RenderSize>('1K');
+  const [renderCount, setRenderCount] = useState(1);
+  const [preferences, setPreferences] = useState<Preferences>(defaultPreferences);
+
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState('');
+  const [projectCreatedAt, setProjectCreatedAt] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [showProjects, setShowProjects] = useState(false);
+
+  const [designs, setDesigns] = useState<WallpaperDesign[]>([]);
+  const [selectedDesignId, setSelectedDesignId] = useState<string | null>(null);
+  const [patternSpec, setPatternSpec] = useState<PatternSpec>(DEFAULT_PATTERN_SPEC);
+  const [variants, setVariants] = useState<DesignVariant[]>([]);
+  const selectedDesign = designs.find(d => d.id === selectedDesignId) ?? null;
+  // Catalog product data replaces the model's guess at roll and panorama dimensions; uploads only declare how they repeat
+  const wallpaperSpec: Partial<WallpaperMetadata> = selectedDesign ? toWallpaperMetadata(selectedDesign) : patternSpec;
+  const designName = selectedDesign?.name ?? t('setup.uploadedPattern');
+
+  // The editor and the results view work on the active photo; these read and write its fields
+  const photo = photos[activePhoto] ?? null;
+  const updatePhoto = (changes: Partial<RoomPhoto>, index = activePhoto) =>
+    setPhotos(current => current.map((p, i) => i === index ? { ...p, ...changes } : p));
+  const roomImage = photo?.image ?? null;
+  const roomSize = photo?.image_size ?? null;
+  const completedBoxes = photo?.boxes ?? [];
+  const suggestions = photo?.suggestions ?? [];
+  // Edited walls or a moved reference no longer match the analysis, its warnings or its render; they are redone on the next run
+  const updateMeasurements = (changes: Partial<RoomPhoto>) =>
+    updatePhoto(photo?.analysis ? { ...changes, analysis: null, rendered_image: null, render_candidates: [] } : changes);
+  const setCompletedBoxes = (boxes: Box[]) => updateMeasurements({ boxes });
+  const refType = photo?.calibration.reference_type ?? ReferenceType.A4_PAPER;
+  const refHeight = photo?.calibration.ref_height_cm ?? 210;
+  const calibrationSegment = photo?.calibration.segment ?? null;
+  const setCalibration = (changes: Partial<ProjectCalibration>) => photo && updateMeasurements({ calibration: { ...photo.calibration, ...changes } });
+  const visualizedImage = photo?.rendered_image ?? null;
+  const renderCandidates = photo?.render_candidates ?? [];
+  const hasRenders = photos.some(p => !!p.rendered_image);
+
+  const calibration = useMemo(() => photo ? photoCalibration(photo) : null, [photo]);
+
+  // The whole room is hung with one wallpaper, so the first analysed photo's spec stands for all of them
+  const analyses = useMemo(() => photos.map(p => p.analysis), [photos]);
+  const roomWallpaper = analyses.find((a): a is VisualizerState => !!a)?.wallpaper ?? null;
+
+  // Roll counts are always derived locally from the measured regions, never taken from the model
+  const estimate = useMemo(
+    () => roomWallpaper ? estimateRoom(analyses, roomWallpaper, stripPlanOptions) : null,
+    [analyses, roomWallpaper, stripPlanOptions]
+  );
+
+  // Quote labels and area units follow the language and unit preferences
+  const quote = useMemo(() => estimate ? buildQuote(estimate, pricing) : null, [estimate, pricing, preferences]);
+
+  // Compared designs share the measured walls; only the paper, and so the roll count, differs
+  const variantRolls = useMemo(
+    () => variants.map(v => roomWallpaper ? estimateRoom(analyses, { ...roomWallpaper, ...v.spec }, stripPlanOptions).total_rolls : null),
+    [variants, analyses, roomWallpaper, stripPlanOptions]
+  );
+
+  // Recomputed with the placement, since a lower starting point can push a wall across a panel join
+  const heightWarnings = useMemo(
+    () => roomWallpaper
+      ? analyses.flatMap((a, photoIndex) => a ? checkWallHeights(a.regions, roomWallpaper, stripPlanOptions).map(w => ({ ...w, photo_index: photoIndex })) : [])
+      : [],
+    [analyses, roomWallpaper, stripPlanOptions]
+  );
+
+  const stripPlan = useMemo(
+    () => roomWallpaper ? planRoomStrips(analyses, roomWallpaper, stripPlanOptions) : null,
+    [analyses, roomWallpaper, stripPlanOptions]
+  );
+
+  const placementWallpaper = useMemo(
+    () => roomWallpaper ?? { ...DEFAULT_WALLPAPER, ...wallpaperSpec },
+    [roomWallpaper, selectedDesign, patternSpec]
+  );
+
+  // Before analysis, walls measured against a drawn reference line are enough to place the panorama on them
+  const placementPlan = useMemo(() => {
+    if (stripPlan) return stripPlan;
+    const measured = photos.map(p => {
+      const scale = photoCalibration(p);
+      return hasLocalScale(scale) ? { regions: p.boxes.map(box => applyExclusions(measureBox(box, scale), box)) } : null;
+    });
+    return measured.some(m => m && m.regions.length > 0) ? planRoomStrips(measured, placementWallpaper, stripPlanOptions) : null;
+  }, [stripPlan, photos, placementWallpaper, stripPlanOptions]);
+
+  const previewWindows = useMemo(
+    () => placementPlan ? photoWindows(placementPlan, activePhoto) : undefined,
+    [placementPlan, activePhoto]
+  );
 
   // useEffect(() => {
   //   checkApiKey();
   // }, []);
 
+  useEffect(() => {
+    refreshDesigns();
+    loadPreferences()
+      .then(changePreferences)
+      .catch(e => console.error("Preferences unavailable", e));
+  }, []);
+
+  // Keeps the elapsed time of the running stage moving
+  useEffect(() => {
+    if (!isAnalyzing && !isGenerating) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isAnalyzing, isGenerating]);
+
   const checkApiKey = async () => {
     try {
       if (window.aistudio) {
@@ -51,7 +234,7 @@ const App: React.FC = () => {
 
   const handleSelectKey = async () => {
     try {
-      if (window.aistudio) {
+      if (window.aistudio && provider.requiresApiKey) {
         await window.aistudio.openSelectKey();
         setKeySelected(true);
       }
@@ -60,21 +243,50 @@ const App: React.FC = () => {
     }
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>, setter: (img: ImageUpload) => void) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>, setter: (img: ImageUpload) => void) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64 = (reader.result as string).split(',')[1];
-      setter({ data: base64, mimeType: file.type });
-      if (setter === setRoomImage) {
-        setCompletedBoxes([]);
-        setVisualizedImage(null);
-        setMetadata(null);
-        setError(null);
+    try {
+      const image = await ingestImage(file);
+      setter(image);
+      if (setter === setWallpaperImage) {
+        setSelectedDesignId(null);
+        seedRollPrice(undefined);
       }
-    };
-    reader.readAsDataURL(file);
+    } catch (err) {
+      setError(err instanceof Error && err.message ? err.message : t('error.imageUnreadable'));
+    }
+  };
+
+  // New photos take the reference type of the one being edited; the same sheet or door is usually in every shot
+  const addPhoto = (image: ImageUpload) => {
+    const calibration: ProjectCalibration = { reference_type: refType, ref_height_cm: refHeight, segment: null };
+    const imageSize = image.width && image.height ? { width: image.width, height: image.height } : null;
+    setPhotos([...photos, { id: createProjectId(), image, image_size: imageSize, boxes: [], calibration, analysis: null, rendered_image: null }]);
+    switchPhoto(photos.length);
+    setError(null);
+  };
+
+  const capturePhoto = (image: ImageUpload) => {
+    addPhoto(image);
+    setShowCamera(false);
+  };
+
+  const switchPhoto = (index: number) => {
+    setActivePhoto(index);
+    setSelectedBox(null);
+    setDragState(null);
+    setIsDrawing(false);
+    setCurrentBox(null);
+    setCalibrationStart(null);
+    setPendingCorners([]);
+    setCanvasMode('regions');
+  };
+
+  const removePhoto = (index: number) => {
+    setPhotos(photos.filter((_, i) => i !== index));
+    switchPhoto(Math.max(0, Math.min(activePhoto > index ? activePhoto - 1 : activePhoto, photos.length - 2)));
   };
 
   const getNormalizedCoords = (e: React.MouseEvent | React.TouchEvent | MouseEvent | TouchEvent): Point | null => {
@@ -93,10 +305,44 @@ const App: React.FC = () => {
     return [Math.max(0, Math.min(100, x)), Math.max(0, Math.min(100, y))];
   };
 
-  const handleMouseDown = (e: React.MouseEvent) => {
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
     // Prevent default to avoid browser's native image dragging
     e.preventDefault();
+    e.currentTarget.focus();
+    e.currentTarget.setPointerCapture(e.pointerId);
     const coords = getNormalizedCoords(e);
+    if (coords && canvasMode === 'calibrate') {
+      // Two clicks: first end, then second end of the reference edge
+      if (!calibrationStart) {
+        setCalibrationStart(coords);
+        setCalibration({ segment: null });
+      } else {
+        setCalibration({ segment: [calibrationStart, coords] });
+        setCalibrationStart(null);
+        setCanvasMode('regions');
+      }
+      return;
+    }
+    if (coords && canvasMode === 'quad') {
+      // Four clicks place the wall corners; they are ordered clockwise once complete
+      const corners = [...pendingCorners, coords];
+      if (corners.length === 4) {
+        setCompletedBoxes([...completedBoxes, boxFromCorners(corners)]);
+        setPendingCorners([]);
+      } else {
+        setPendingCorners(corners);
+      }
+      return;
+    }
+    if (coords && canvasMode === 'regions') {
+      // Pressing inside an existing region selects it and starts a move instead of a new box
+      const hit = findParentRegion(completedBoxes, coords);
+      setSelectedBox(hit === -1 ? null : hit);
+      if (hit !== -1) {
+        setDragState({ kind: 'move', index: hit, origin: coords, original: completedBoxes[hit], moved: false });
+        return;
+      }
+    }
     if (coords) {
       setIsDrawing(true);
       setStartPoint(coords);
@@ -104,22 +350,55 @@ const App: React.FC = () => {
     }
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
+  const startResize = (e: React.PointerEvent<HTMLDivElement>, index: number, corner: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragState({ kind: 'resize', index, corner, original: completedBoxes[index] });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
     const coords = getNormalizedCoords(e);
     if (!coords) return;
     setMousePos(coords);
+    if (dragState) {
+      // A click to select a region must not move it, since any edit discards the photo's analysis
+      if (dragState.kind === 'move' && !dragState.moved) {
+        const rect = imgRef.current?.getBoundingClientRect();
+        const dx = ((coords[0] - dragState.origin[0]) * (rect?.width ?? 0)) / 100;
+        const dy = ((coords[1] - dragState.origin[1]) * (rect?.height ?? 0)) / 100;
+        if (Math.hypot(dx, dy) < MOVE_THRESHOLD_PX) return;
+        setDragState({ ...dragState, moved: true });
+      }
+      // Always derive from the box as it was when the drag began so corner indices stay stable
+      const updated = dragState.kind === 'move'
+        ? translateBox(dragState.original, coords[0] - dragState.origin[0], coords[1] - dragState.origin[1])
+        : moveBoxCorner(dragState.original, dragState.corner, coords);
+      const current = completedBoxes[dragState.index];
+      if (current && !sameOutline(current, updated)) {
+        setCompletedBoxes(completedBoxes.map((box, i) => i === dragState.index ? updated : box));
+      }
+      return;
+    }
     if (isDrawing && startPoint) {
       setCurrentBox({ start: startPoint, end: coords });
     }
   };
 
-  const handleMouseUp = () => {
+  const handlePointerUp = () => {
+    if (dragState) {
+      setDragState(null);
+      return;
+    }
     if (isDrawing && currentBox) {
       const width = Math.abs(currentBox.end[0] - currentBox.start[0]);
       const height = Math.abs(currentBox.end[1] - currentBox.start[1]);
       // Small threshold to prevent single clicks from creating tiny boxes
-      if (width > 0.5 && height > 0.5) {
+      if (width > 0.5 && height > 0.5 && canvasMode === 'exclusion') {
+        addExclusion({ start: currentBox.start, end: currentBox.end, type: exclusionType });
+      } else if (width > 0.5 && height > 0.5) {
         setCompletedBoxes([...completedBoxes, currentBox]);
+        setSelectedBox(completedBoxes.length);
       }
     }
     setIsDrawing(false);
@@ -127,52 +406,453 @@ const App: React.FC = () => {
     setCurrentBox(null);
   };
 
+  const addExclusion = (exclusion: Exclusion) => {
+    // Cut-outs belong to whichever wall region contains their centre
+    const center: Point = [(exclusion.start[0] + exclusion.end[0]) / 2, (exclusion.start[1] + exclusion.end[1]) / 2];
+    const parent = findParentRegion(completedBoxes, center);
+    if (parent === -1) {
+      setError(t('error.cutOutOutside'));
+      return;
+    }
+    setError(null);
+    setCompletedBoxes(completedBoxes.map((box, i) => i === parent ? { ...box, exclusions: [...(box.exclusions || []), exclusion] } : box));
+  };
+
+  const deleteBox = (index: number) => {
+    setCompletedBoxes(completedBoxes.filter((_, i) => i !== index));
+    setSelectedBox(null);
+  };
+
+  const handleCanvasKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape') {
+      setPendingCorners([]);
+      setCalibrationStart(null);
+      setSelectedBox(null);
+      return;
+    }
+    if (selectedBox === null || !completedBoxes[selectedBox]) return;
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      deleteBox(selectedBox);
+      return;
+    }
+    const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+    const deltas: Record<string, Point> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step]
+    };
+    const delta = deltas[e.key];
+    if (!delta) return;
+    e.preventDefault();
+    setCompletedBoxes(completedBoxes.map((box, i) => i === selectedBox ? translateBox(box, delta[0], delta[1]) : box));
+  };
+
+  // Detected walls stay dashed suggestions until accepted; nothing enters the estimate unreviewed
+  const suggestWalls = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!photo) return;
+    const index = activePhoto;
+    setError(null);
+    setIsDetecting(true);
+    try {
+      const found = await detectWallRegions(photo.image, photo.boxes);
+      updatePhoto({ suggestions: found }, index);
+      if (found.length === 0) setError(t('error.noWallsFound'));
+    } catch (err) {
+      handleFailure(err);
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  // Editing accepts the suggestion and selects it so its corners can be dragged into place
+  const acceptSuggestion = (id: string, edit = false) => {
+    const suggestion = suggestions.find(s => s.id === id);
+    if (!suggestion) return;
+    updateMeasurements({ boxes: [...completedBoxes, suggestion.box], suggestions: suggestions.filter(s => s.id !== id) });
+    setCanvasMode('regions');
+    setSelectedBox(edit ? completedBoxes.length : null);
+  };
+
+  const acceptAllSuggestions = () => {
+    updateMeasurements({ boxes: [...completedBoxes, ...suggestions.map(s => s.box)], suggestions: [] });
+    setSelectedBox(null);
+  };
+
+  const rejectSuggestion = (id: string) => updatePhoto({ suggestions: suggestions.filter(s => s.id !== id) });
+
   const undoLastBox = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (completedBoxes.length > 0) {
+    setSelectedBox(null);
+    if (pendingCorners.length > 0) {
+      setPendingCorners(pendingCorners.slice(0, -1));
+    } else if (completedBoxes.length > 0) {
       setCompletedBoxes(completedBoxes.slice(0, -1));
     }
   };
 
+  const toggleCalibrationMode = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setCalibrationStart(null);
+    setPendingCorners([]);
+    setCanvasMode(canvasMode === 'calibrate' ? 'regions' : 'calibrate');
+  };
+
+  const toggleExclusionMode = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setCalibrationStart(null);
+    setPendingCorners([]);
+    setCanvasMode(canvasMode === 'exclusion' ? 'regions' : 'exclusion');
+  };
+
+  const toggleQuadMode = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setCalibrationStart(null);
+    setPendingCorners([]);
+    setCanvasMode(canvasMode === 'quad' ? 'regions' : 'quad');
+  };
+
+  // Each run gets its own controller so cancelling only stops the run in flight
+  const beginRun = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller.signal;
+  };
+
+  const cancelRun = () => abortRef.current?.abort();
+
+  // A cancelled run keeps whatever finished before it stopped and shows no error
+  const stopRun = (err: unknown) => {
+    const cancelled = classifyError(err).kind === 'cancelled';
+    setPipeline(current => endRunning(current, cancelled ? 'cancelled' : 'failed'));
+    if (!cancelled) handleFailure(err);
+  };
+
+  // Panorama placement across every analysed photo, so each render is told which part of the master its walls show
+  const planRenders = (analysed: { index: number; analysis: VisualizerState }[], wallpaper: WallpaperMetadata) =>
+    planRoomStrips(photos.map((_, i) => analysed.find(a => a.index === i)?.analysis ?? null), wallpaper, stripPlanOptions);
+
+  // Renders one photo at a time; the results view opens as soon as the first one is back.
+  // The first take replaces the shown render and later takes are kept alongside it to choose from
+  const renderPhotos = async (wallpaper: ImageUpload, queue: { index: number; analysis: VisualizerState }[], plan: StripPlan, signal: AbortSignal) => {
+    for (const { index, analysis } of queue) {
+      for (let take = 0; take < renderCount; take++) {
+        const resultImage = await generateMaskedVisualization(photos[index].image, wallpaper, analysis, renderSize, photoWindows(plan, index), signal);
+        setPhotos(current => current.map((p, i) => i !== index ? p : take === 0
+          ? { ...p, rendered_image: resultImage, render_candidates: [resultImage] }
+          : { ...p, render_candidates: [...(p.render_candidates ?? []), resultImage] }));
+        setPipeline(current => advanceStage(current, 'render'));
+      }
+    }
+  };
+
+  const pendingVariantRenders = (queue: { index: number }[], keepFinished: boolean) =>
+    variants.reduce((sum, v) => sum + queue.filter(({ index }) => !keepFinished || !v.renders[photos[index].id]).length, 0);
+
+  // Each compared design is rendered on the walls already measured for the main one; finished renders are kept unless a fresh run asks otherwise
+  const renderVariants = async (queue: { index: number; analysis: VisualizerState }[], keepFinished: boolean, signal: AbortSignal) => {
+    if (queue.length === 0) return;
+    for (const variant of variants) {
+      const plan = planRenders(queue, { ...queue[0].analysis.wallpaper, ...variant.spec });
+      for (const { index, analysis } of queue) {
+        const target = photos[index];
+        if (keepFinished && variant.renders[target.id]) continue;
+        const resultImage = await generateMaskedVisualization(target.image, variant.image, { ...analysis, wallpaper: { ...analysis.wallpaper, ...variant.spec } }, renderSize, photoWindows(plan, index), signal);
+        setVariants(current => current.map(v => v.id === variant.id ? { ...v, renders: { ...v.renders, [target.id]: resultImage } } : v));
+        setPipeline(current => advanceStage(current, 'render'));
+      }
+    }
+  };
+
   const startProcess = async () => {
-    if (!roomImage || !wallpaperImage || completedBoxes.length === 0) {
-      setError("Please draw at least one area box and upload a pattern before beginning.");
+    const marked = photos.flatMap((p, index) => p.boxes.length > 0 ? [index] : []);
+    if (!wallpaperImage || marked.length === 0) {
+      setError(t('error.nothingToRender'));
       return;
     }
     
+    const signal = beginRun();
     setError(null);
-    setIsAnalyzing(true);
+    setPipeline(startStage(idlePipeline(), 'analysis', marked.length));
+    setPhotos(photos.map(p => ({ ...p, analysis: null, rendered_image: null, render_candidates: [] })));
+    setVariants(variants.map(v => ({ ...v, renders: {} })));
+    switchPhoto(marked[0]);
     try {
-      const actualHeight = refType === ReferenceType.A4_PAPER ? 29.7 : refHeight;
-      const analysisData = await analyzeMarkedRegions(roomImage, wallpaperImage, refType, actualHeight, completedBoxes);
-      setMetadata(analysisData);
-      setIsAnalyzing(false);
-      setIsGenerating(true);
-      const resultImage = await generateMaskedVisualization(roomImage, wallpaperImage, analysisData);
-      setVisualizedImage(resultImage);
-    } catch (err: any) {
-      if (err.message?.includes("Requested entity was not found.")) {
-        setKeySelected(false);
-        handleSelectKey();
-        return;
+      // Later photos reuse the first result's wallpaper so every wall is estimated against the same spec
+      let spec: Partial<WallpaperMetadata> = wallpaperSpec;
+      const queue: { index: number; analysis: VisualizerState }[] = [];
+      for (const index of marked) {
+        const target = photos[index];
+        const analysis = await analyzeMarkedRegions(target.image, wallpaperImage, target.calibration.reference_type, referenceHeightCm(target.calibration), target.boxes, photoCalibration(target) ?? undefined, spec, signal);
+        updatePhoto({ analysis }, index);
+        setPipeline(current => advanceStage(current, 'analysis'));
+        queue.push({ index, analysis });
+        spec = analysis.wallpaper;
       }
-      setError("Atelier synthesis failed. Please re-check markers and spatial calibration.");
-    } finally {
-      setIsAnalyzing(false);
-      setIsGenerating(false);
+      setPipeline(current => endStage(current, 'analysis', 'done'));
+      // Walls the paper cannot cover in one piece, or a doubtful reference, stop here to be seen before rendering
+      if (queue.some(({ analysis }) => checkWallHeights(analysis.regions, queue[0].analysis.wallpaper, stripPlanOptions).length || assessCalibration(analysis.calibration))) return;
+      setPipeline(current => startStage(current, 'render', queue.length * renderCount + pendingVariantRenders(queue, false)));
+      await renderPhotos(wallpaperImage, queue, planRenders(queue, queue[0].analysis.wallpaper), signal);
+      await renderVariants(queue, false, signal);
+      setPipeline(current => endStage(current, 'render', 'done'));
+    } catch (err) {
+      stopRun(err);
     }
   };
 
+  // Resumes a run held back by height warnings, or cut short, reusing the analyses already on screen
+  const continueToRender = async () => {
+    const analysed = photos.flatMap((p, index) => p.analysis ? [{ index, analysis: p.analysis }] : []);
+    const queue = analysed.filter(({ index }) => !photos[index].rendered_image);
+    if (!wallpaperImage || analysed.length === 0 || referenceMissing) return;
+    const signal = beginRun();
+    setError(null);
+    setPipeline(current => startStage(current, 'render', queue.length * renderCount + pendingVariantRenders(analysed, true)));
+    try {
+      await renderPhotos(wallpaperImage, queue, planRenders(analysed, analysed[0].analysis.wallpaper), signal);
+      await renderVariants(analysed, true, signal);
+      setPipeline(current => endStage(current, 'render', 'done'));
+    } catch (err) {
+      stopRun(err);
+    }
+  };
+
+  // Redoes the active photo's render from the measurements already taken, without another analysis
+  const regenerateRender = async () => {
+    const analysis = photo?.analysis;
+    if (!wallpaperImage || !analysis || !stripPlan || isAnalyzing || isGenerating) return;
+    const signal = beginRun();
+    setError(null);
+    setPipeline(current => startStage(current, 'render', renderCount));
+    try {
+      await renderPhotos(wallpaperImage, [{ index: activePhoto, analysis }], stripPlan, signal);
+      setPipeline(current => endStage(current, 'render', 'done'));
+    } catch (err) {
+      stopRun(err);
+    }
+  };
+
+  const handleFailure = (err: unknown) => {
+    const failure = classifyError(err);
+    console.error(`Synthesis failed (${failure.kind})`, failure.details || failure.message);
+    if (failure.kind === 'auth' && provider.requiresApiKey && window.aistudio) {
+      setKeySelected(false);
+      handleSelectKey();
+      return;
+    }
+    setError(describeError(failure));
+  };
+
+  const referenceDoubtful = !!photo?.analysis && !!assessCalibration(photo.analysis.calibration);
+  const calibrationIssues = photos.flatMap((p, photoIndex) => {
+    const issue = p.analysis && assessCalibration(p.analysis.calibration);
+    return issue ? [{ ...issue, photo_index: photoIndex }] : [];
+  });
+  // Without the reference object there is no scale at all, so no render is spent until one is drawn
+  const referenceMissing = calibrationIssues.some(issue => issue.kind === 'not_found');
+
+  const exportReport = async () => {
+    const reportPhotos = photos.flatMap((p, index) => p.analysis ? [{ index, roomImage: p.image, renderedImage: p.rendered_image, metadata: p.analysis }] : []);
+    if (reportPhotos.length === 0 || !estimate || !roomWallpaper) return;
+    try {
+      await openPrintableReport({ photos: reportPhotos, wallpaper: roomWallpaper, estimate, stripPlan, design: selectedDesign, quote });
+    } catch (err) {
+      console.error("Report export failed", err);
+      setError(t('error.reportFailed'));
+    }
+  };
+
+  const buildProject = (): VisualizerProject => {
+    const now = new Date().toISOString();
+    return {
+      version: PROJECT_VERSION,
+      id: projectId ?? createProjectId(),
+      name: projectName.trim() || t('projects.untitled'),
+      created_at: projectCreatedAt ?? now,
+      updated_at: now,
+      photos,
+      wallpaper_image: wallpaperImage,
+      design_id: selectedDesignId,
+      variants,
+      strip_plan_options: stripPlanOptions,
+      pricing
+    };
+  };
+
+  const applyProject = (project: VisualizerProject) => {
+    reset();
+    setProjectId(project.id);
+    setProjectName(project.name);
+    setProjectCreatedAt(project.created_at);
+    setPhotos(project.photos);
+    setWallpaperImage(project.wallpaper_image);
+    setSelectedDesignId(project.design_id ?? null);
+    setVariants(project.variants ?? []);
+    const analysedWallpaper = project.photos.find(p => p.analysis)?.analysis?.wallpaper;
+    if (analysedWallpaper?.pattern_type) {
+      const { pattern_type, pattern_repeat_cm, match_type } = analysedWallpaper;
+      setPatternSpec({ ...DEFAULT_PATTERN_SPEC, pattern_type, pattern_repeat_cm, match_type });
+    }
+    setStripPlanOptions(project.strip_plan_options);
+    setPricing(project.pricing ?? DEFAULT_PRICING);
+  };
+
+  const refreshProjects = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (e) {
+      console.error("Project list unavailable", e);
+    }
+  };
+
+  const saveCurrentProject = async () => {
+    const project = buildProject();
+    await saveProject(project);
+    setProjectId(project.id);
+    setProjectName(project.name);
+    setProjectCreatedAt(project.created_at);
+    await refreshProjects();
+  };
+
+  const openProject = async (id: string) => {
+    const project = await loadProject(id);
+    if (!project) throw new Error(t('error.projectMissing'));
+    applyProject(project);
+    setShowProjects(false);
+  };
+
+  const importProject = async (file: File) => {
+    applyProject(await importProjectFile(file));
+    setShowProjects(false);
+  };
+
+  const removeProject = async (id: string) => {
+    await deleteProject(id);
+    if (id === projectId) setProjectId(null);
+    await refreshProjects();
+  };
+
+  const refreshDesigns = async () => {
+    try {
+      setDesigns(await listDesigns());
+    } catch (e) {
+      console.error("Design catalog unavailable", e);
+    }
+  };
+
+  // Services read the active language and units directly; the state change re-renders everything with them
+  const changePreferences = (next: Preferences) => {
+    applyPreferences(next);
+    setPreferences(next);
+  };
+
+  const updatePreferences = (changes: Partial<Preferences>) => {
+    const next = { ...preferences, ...changes };
+    changePreferences(next);
+    savePreferences(next).catch(e => console.error("Preferences could not be saved", e));
+  };
+
+  // The catalog list price seeds the quote; sales can still override it per project. A design without
+  // a list price clears the previous one, so the quote flags the missing price instead of reusing it
+  const seedRollPrice = (design: WallpaperDesign | undefined) => {
+    if (design && design.price.amount > 0) {
+      setPricing({ ...pricing, roll_price: design.price.amount, roll_price_currency: design.price.currency });
+    } else {
+      setPricing({ ...pricing, roll_price: 0 });
+    }
+  };
+
+  const selectDesign = (design: WallpaperDesign) => {
+    setWallpaperImage(design.image);
+    setSelectedDesignId(design.id);
+    seedRollPrice(design);
+  };
+
+  // Moves the wallpaper on screen into the comparison queue and frees the slot for the next design
+  const queueVariant = () => {
+    if (!wallpaperImage) return;
+    setVariants([...variants, { id: createProjectId(), name: designName, image: wallpaperImage, design_id: selectedDesignId, spec: wallpaperSpec, renders: {} }]);
+    setWallpaperImage(null);
+    setSelectedDesignId(null);
+  };
+
+  const removeVariant = (id: string) => setVariants(variants.filter(v => v.id !== id));
+
+  // Swaps a compared design with the main one, so the estimate, hanging plan and report follow the favourite
+  const promoteVariant = (id: string) => {
+    const variant = variants.find(v => v.id === id);
+    if (!variant || !wallpaperImage || isGenerating) return;
+    const renders = Object.fromEntries(photos.flatMap(p => p.rendered_image ? [[p.id, p.rendered_image]] : []));
+    const demoted: DesignVariant = { id: createProjectId(), name: designName, image: wallpaperImage, design_id: selectedDesignId, spec: wallpaperSpec, renders };
+    setVariants(variants.map(v => v.id === id ? demoted : v));
+    setWallpaperImage(variant.image);
+    setSelectedDesignId(variant.design_id);
+    if (!variant.design_id) {
+      const { pattern_type, pattern_repeat_cm, match_type } = variant.spec;
+      setPatternSpec({ ...DEFAULT_PATTERN_SPEC, pattern_type, pattern_repeat_cm, match_type });
+    }
+    seedRollPrice(designs.find(d => d.id === variant.design_id));
+    setPhotos(photos.map(p => {
+      if (!p.analysis) return p;
+      const wallpaper = { ...p.analysis.wallpaper, ...variant.spec };
+      return { ...p, rendered_image: variant.renders[p.id] ?? null, render_candidates: [], analysis: { ...p.analysis, wallpaper } };
+    }));
+  };
+
+  const addUploadToCatalog = async (draft: DesignDraft) => {
+    if (!wallpaperImage) return;
+    const design: WallpaperDesign = { ...draft, id: draft.sku.trim(), sku: draft.sku.trim(), name: draft.name.trim() || draft.sku.trim(), image: wallpaperImage };
+    await saveDesign(design);
+    await refreshDesigns();
+    setSelectedDesignId(design.id);
+  };
+
+  const importCatalog = async (file: File) => {
+    await importCatalogFile(file);
+    await refreshDesigns();
+  };
+
+  const removeDesign = async (id: string) => {
+    await deleteDesign(id);
+    if (id === selectedDesignId) setSelectedDesignId(null);
+    await refreshDesigns();
+  };
+
+  // Back to the editor with walls, calibration and wallpaper intact, e.g. to try another design
+  const editSetup = () => {
+    setPhotos(photos.map(p => ({ ...p, analysis: null, rendered_image: null, render_candidates: [] })));
+    setVariants(variants.map(v => ({ ...v, renders: {} })));
+    setPipeline(idlePipeline());
+    setError(null);
+  };
+
   const reset = () => {
-    setRoomImage(null);
+    cancelRun();
+    setPipeline(idlePipeline());
+    setPhotos([]);
+    setActivePhoto(0);
     setWallpaperImage(null);
-    setVisualizedImage(null);
-    setMetadata(null);
+    setSelectedDesignId(null);
+    setPatternSpec(DEFAULT_PATTERN_SPEC);
+    setVariants([]);
     setError(null);
-    setCompletedBoxes([]);
+    setSelectedBox(null);
+    setDragState(null);
+    setStripPlanOptions(DEFAULT_STRIP_PLAN_OPTIONS);
+    setPricing(DEFAULT_PRICING);
+    setProjectId(null);
+    setProjectName('');
+    setProjectCreatedAt(null);
     setIsDrawing(false);
     setStartPoint(null);
     setCurrentBox(null);
+    setCanvasMode('regions');
+    setCalibrationStart(null);
+    setPendingCorners([]);
   };
 
   if (!keySelected) {
@@ -181,10 +861,10 @@ const App: React.FC = () => {
         <div className="max-w-md w-full p-12 border border-slate-100 rounded-sm">
           <div className="font-luxury mb-12 uppercase tracking-[0.5em] text-[#8c734b] text-2xl">FROMENTAL</div>
           <p className="text-slate-400 text-[10px] uppercase tracking-[0.2em] mb-12 leading-relaxed">
-            Please connect your Gemini API Key to proceed to the bespoke atelier visualizer.
+            {t('app.connectKey')}
           </p>
           <button onClick={handleSelectKey} className="w-full btn-fromental text-white">
-            Connect AI Studio
+            {t('app.connectStudio')}
           </button>
         </div>
       </div>
@@ -196,84 +876,412 @@ const App: React.FC = () => {
     const y = Math.min(box.start[1], box.end[1]);
     const width = Math.abs(box.end[0] - box.start[0]);
     const height = Math.abs(box.end[1] - box.start[1]);
+
+    const exclusions = (box.exclusions || []).map((ex, i) => renderExclusion(ex, i));
+    const isSelected = index === selectedBox;
+
+    if (box.corners) {
+      return (
+        <g key={index}>
+          <polygon
+            points={box.corners.map(p => p.join(',')).join(' ')}
+            fill={showPreview ? "none" : "rgba(59, 130, 246, 0.4)"}
+            stroke={isSelected ? "#1e3a8a" : "#2563eb"}
+            strokeWidth={isSelected ? "1" : "0.5"}
+          />
+          {exclusions}
+        </g>
+      );
+    }
     
+    return (
+      <g key={index}>
+        <rect
+          x={x}
+          y={y}
+          width={width}
+          height={height}
+          fill={isCurrent ? "rgba(59, 130, 246, 0.2)" : showPreview ? "none" : "rgba(59, 130, 246, 0.4)"}
+          stroke={isSelected ? "#1e3a8a" : "#2563eb"}
+          strokeWidth={isSelected ? "1" : "0.5"}
+          strokeDasharray={isCurrent ? "1,1" : "0"}
+        />
+        {exclusions}
+      </g>
+    );
+  };
+
+  const renderExclusion = (exclusion: { start: Point; end: Point }, index: number | string, isCurrent = false) => (
+    <rect
+      key={index}
+      x={Math.min(exclusion.start[0], exclusion.end[0])}
+      y={Math.min(exclusion.start[1], exclusion.end[1])}
+      width={Math.abs(exclusion.end[0] - exclusion.start[0])}
+      height={Math.abs(exclusion.end[1] - exclusion.start[1])}
+      fill={isCurrent ? "rgba(239, 68, 68, 0.15)" : showPreview ? "none" : "rgba(255, 255, 255, 0.6)"}
+      stroke="#ef4444"
+      strokeWidth="0.5"
+      strokeDasharray="1,1"
+    />
+  );
+
+  const renderCalibrationLine = () => {
+    const segment: [Point, Point] | null = calibrationSegment
+      ?? (calibrationStart && mousePos ? [calibrationStart, mousePos] : null);
+    if (!segment && !calibrationStart) return null;
+    return (
+      <g>
+        {segment && (
+          <line
+            x1={segment[0][0]}
+            y1={segment[0][1]}
+            x2={segment[1][0]}
+            y2={segment[1][1]}
+            stroke="#8c734b"
+            strokeWidth="2"
+            strokeDasharray={calibrationSegment ? undefined : "4,4"}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {(segment ? segment : [calibrationStart as Point]).map((p, i) => (
+          <line key={i} x1={p[0]} y1={p[1]} x2={p[0] + 0.01} y2={p[1]} stroke="#8c734b" strokeWidth="10" strokeLinecap="round" vectorEffect="non-scaling-stroke" />
+        ))}
+      </g>
+    );
+  };
+
+  const renderBoxOverlay = () => (
+    <>
+      {completedBoxes.map((box, i) => {
+        const [x, y] = regionCorners(box)[0];
+        return (
+          <div
+            key={i}
+            className={`absolute pointer-events-none min-w-[1.25rem] h-5 px-1 flex items-center justify-center text-[10px] font-bold text-white ${i === selectedBox ? 'bg-[#1e3a8a]' : 'bg-[#2563eb]'}`}
+            style={{ left: `${x}%`, top: `${y}%` }}
+          >
+            {i + 1}
+          </div>
+        );
+      })}
+      {selectedBox !== null && completedBoxes[selectedBox] && regionCorners(completedBoxes[selectedBox]).map((p, corner) => (
+        <div
+          key={corner}
+          onPointerDown={(e) => startResize(e, selectedBox, corner)}
+          className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full bg-white border-2 border-[#1e3a8a] shadow cursor-move touch-none"
+          style={{ left: `${p[0]}%`, top: `${p[1]}%` }}
+        />
+      ))}
+    </>
+  );
+
+  // What the model took as the reference object, so a wrong pick is visible before it skews the roll count
+  const renderReferenceBox = () => {
+    const box = photo?.analysis?.calibration.reference_box;
+    if (!box) return null;
     return (
       <rect
-        key={index}
-        x={x}
-        y={y}
-        width={width}
-        height={height}
-        fill={isCurrent ? "rgba(59, 130, 246, 0.2)" : "rgba(59, 130, 246, 0.4)"}
-        stroke="#2563eb"
-        strokeWidth="0.5"
-        strokeDasharray={isCurrent ? "1,1" : "0"}
+        x={box[0][0]}
+        y={box[0][1]}
+        width={box[1][0] - box[0][0]}
+        height={box[1][1] - box[0][1]}
+        fill="none"
+        stroke={referenceDoubtful ? '#f59e0b' : '#10b981'}
+        strokeWidth="2"
+        strokeDasharray="4,3"
+        vectorEffect="non-scaling-stroke"
       />
     );
   };
 
+  const renderSuggestions = () => suggestions.map(s => (
+    <polygon
+      key={s.id}
+      points={regionCorners(s.box).map(p => p.join(',')).join(' ')}
+      fill="rgba(140, 115, 75, 0.08)"
+      stroke="#8c734b"
+      strokeWidth="1.5"
+      strokeDasharray="6,4"
+      vectorEffect="non-scaling-stroke"
+    />
+  ));
+
+  const renderSuggestionControls = () => suggestions.map(s => {
+    const corners = regionCorners(s.box);
+    const cx = corners.reduce((sum, p) => sum + p[0], 0) / corners.length;
+    const cy = corners.reduce((sum, p) => sum + p[1], 0) / corners.length;
+    return (
+      <div
+        key={s.id}
+        onPointerDown={(e) => e.stopPropagation()}
+        className="absolute -translate-x-1/2 -translate-y-1/2 flex items-center gap-1 pl-2 pr-1 py-1 bg-white/95 border border-[#8c734b] shadow"
+        style={{ left: `${cx}%`, top: `${cy}%` }}
+      >
+        <span className="text-[9px] font-bold uppercase tracking-widest text-[#8c734b] whitespace-nowrap">{s.label}</span>
+        <button onClick={() => acceptSuggestion(s.id)} className="p-1 text-slate-400 hover:text-emerald-600 transition-colors" aria-label={t('setup.accept', { name: s.label })}>
+          <Check className="w-3 h-3" />
+        </button>
+        <button onClick={() => acceptSuggestion(s.id, true)} className="p-1 text-slate-400 hover:text-[#2563eb] transition-colors" aria-label={t('setup.edit', { name: s.label })}>
+          <Pencil className="w-3 h-3" />
+        </button>
+        <button onClick={() => rejectSuggestion(s.id)} className="p-1 text-slate-400 hover:text-red-500 transition-colors" aria-label={t('setup.reject', { name: s.label })}>
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+    );
+  });
+
+  const renderPendingCorners = () => {
+    if (pendingCorners.length === 0) return null;
+    const path = mousePos ? [...pendingCorners, mousePos] : pendingCorners;
+    return (
+      <g>
+        <polyline
+          points={path.map(p => p.join(',')).join(' ')}
+          fill="rgba(59, 130, 246, 0.2)"
+          stroke="#2563eb"
+          strokeWidth="1.5"
+          strokeDasharray="4,4"
+          vectorEffect="non-scaling-stroke"
+        />
+        {pendingCorners.map((p, i) => (
+          <line key={i} x1={p[0]} y1={p[1]} x2={p[0] + 0.01} y2={p[1]} stroke="#2563eb" strokeWidth="10" strokeLinecap="round" vectorEffect="non-scaling-stroke" />
+        ))}
+      </g>
+    );
+  };
+
   return (
     <div className="min-h-screen bg-white flex flex-col">
       {/* Brand Header */}
       <header className="px-12 py-12 border-b border-slate-50 flex justify-between items-baseline bg-white">
         <div className="font-luxury text-2xl tracking-[0.3em] cursor-pointer" onClick={reset}>FROMENTAL</div>
-        <div className="label-secondary">Bespoke Workspace</div>
+        <div className="flex items-baseline gap-8">
+          <button onClick={() => setShowProjects(true)} className="label-secondary flex items-center gap-2 hover:text-[#8c734b] transition-colors">
+            <FolderOpen className="w-4 h-4 self-center" /> {projectName.trim() || t('app.projects')}
+          </button>
+          <div className="label-secondary flex items-center gap-3">
+            <Globe className="w-4 h-4" />
+            <select
+              aria-label={t('app.language')}
+              value={preferences.language}
+              onChange={(e) => updatePreferences({ language: e.target.value as Language })}
+              className="bg-transparent outline-none cursor-pointer hover:text-[#8c734b]"
+            >
+              {LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
+            <span>·</span>
+            <select
+              aria-label={t('app.units')}
+              value={preferences.unit_system}
+              onChange={(e) => updatePreferences({ unit_system: e.target.value as UnitSystem })}
+              className="bg-transparent outline-none cursor-pointer hover:text-[#8c734b]"
+            >
+              <option value="metric">{t('app.units.metric')}</option>
+              <option value="imperial">{t('app.units.imperial')}</option>
+            </select>
+          </div>
+          <div className="label-secondary">{t('app.workspace')}</div>
+        </div>
       </header>
 
+      {showProjects && (
+        <ProjectPanel
+          projects={projects}
+          currentId={projectId}
+          name={projectName}
+          onNameChange={setProjectName}
+          onSave={saveCurrentProject}
+          onExport={() => exportProjectFile(buildProject())}
+          onImport={importProject}
+          onOpen={openProject}
+          onDelete={removeProject}
+          onRefresh={refreshProjects}
+          onClose={() => setShowProjects(false)}
+        />
+      )}
+
+      {showCamera && (
+        <CameraCapture
+          referenceType={refType}
+          onCapture={capturePhoto}
+          onClose={() => setShowCamera(false)}
+        />
+      )}
+
       <main className="flex-1 max-w-[1500px] mx-auto w-full px-12 py-16">
-        {!visualizedImage && !isAnalyzing && !isGenerating ? (
+        {!hasRenders && !isAnalyzing && !isGenerating ? (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-12 animate-fade-in">
             {/* Setup Left: Room Context & Marking */}
             <div className="space-y-10">
               <div className="space-y-4">
-                <label className="label-spaced">1. Room Perspective (Draw Blue Boxes)</label>
+                <div className="flex items-baseline justify-between gap-4">
+                  <label className="label-spaced">{t('setup.roomTitle')}</label>
+                  {photos.length > 0 && (
+                    <div className="flex flex-wrap justify-end gap-2">
+                      {photos.map((p, i) => (
+                        <div
+                          key={p.id}
+                          onClick={() => switchPhoto(i)}
+                          className={`flex items-center gap-2 pl-3 pr-1 py-1 border cursor-pointer transition-colors ${i === activePhoto ? 'border-[#8c734b] text-[#8c734b]' : 'border-slate-100 text-slate-400 hover:border-slate-300'}`}
+                        >
+                          <span className="text-[10px] font-bold uppercase tracking-widest">{t('setup.photoTab', { n: i + 1, count: p.boxes.length })}</span>
+                          <button onClick={(e) => { e.stopPropagation(); removePhoto(i); }} className="p-1 hover:text-red-500 transition-colors" aria-label={t('setup.removePhoto', { n: i + 1 })}>
+                            <X className="w-3 h-3" />
+                          </button>
+                        </div>
+                      ))}
+                      <label className="flex items-center gap-2 px-3 py-1 border border-dashed border-slate-200 text-slate-400 hover:text-[#8c734b] hover:border-[#8c734b] cursor-pointer transition-colors">
+                        <Upload className="w-3 h-3" />
+                        <span className="text-[10px] font-bold uppercase tracking-widest">{t('setup.addPhoto')}</span>
+                        <input type="file" className="hidden" onChange={(e) => handleFileUpload(e, addPhoto)} accept="image/*" />
+                      </label>
+                      <button onClick={() => setShowCamera(true)} className="flex items-center gap-2 px-3 py-1 border border-dashed border-slate-200 text-slate-400 hover:text-[#8c734b] hover:border-[#8c734b] transition-colors">
+                        <Camera className="w-3 h-3" />
+                        <span className="text-[10px] font-bold uppercase tracking-widest">{t('setup.capture')}</span>
+                      </button>
+                    </div>
+                  )}
+                </div>
                 <div className="relative border border-slate-100 bg-[#fafafa] min-h-[500px] flex items-center justify-center overflow-hidden rounded-sm group shadow-sm">
                   {!roomImage ? (
-                    <label className="absolute inset-0 flex flex-col items-center justify-center cursor-pointer hover:bg-white transition-all">
-                      <Camera className="w-8 h-8 text-slate-200 mb-4" />
-                      <span className="label-secondary">Upload Project Photo</span>
-                      <input type="file" className="hidden" onChange={(e) => handleFileUpload(e, setRoomImage)} accept="image/*" />
-                    </label>
+                    <>
+                      <label className="absolute inset-0 flex flex-col items-center justify-center cursor-pointer hover:bg-white transition-all">
+                        <Upload className="w-8 h-8 text-slate-200 mb-4" />
+                        <span className="label-secondary">{t('setup.uploadPhoto')}</span>
+                        <input type="file" className="hidden" onChange={(e) => handleFileUpload(e, addPhoto)} accept="image/*" />
+                      </label>
+                      <button onClick={() => setShowCamera(true)} className="absolute bottom-10 btn-outline bg-white flex items-center gap-2">
+                        <Camera className="w-4 h-4" /> {t('setup.captureCamera')}
+                      </button>
+                    </>
                   ) : (
                     <div 
-                      className="relative w-full cursor-crosshair select-none overflow-hidden" 
-                      onMouseDown={handleMouseDown} 
-                      onMouseMove={handleMouseMove}
-                      onMouseUp={handleMouseUp}
-                      onMouseLeave={handleMouseUp}
+                      className={`relative w-full select-none overflow-hidden touch-none outline-none ${canvasMode === 'regions' ? 'cursor-crosshair' : 'cursor-cell'}`}
+                      tabIndex={0}
+                      onPointerDown={handlePointerDown} 
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={handlePointerUp}
+                      onPointerCancel={handlePointerUp}
+                      onKeyDown={handleCanvasKeyDown}
                     >
                       <img 
                         ref={imgRef} 
-                        src={`data:image/png;base64,${roomImage.data}`} 
+                        src={toDataUrl(roomImage)} 
                         className="w-full h-auto block" 
-                        alt="Room View" 
+                        alt={t('setup.roomAlt')} 
                         draggable="false"
+                        onLoad={(e) => {
+                          const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+                          if (roomSize?.width !== width || roomSize?.height !== height) updatePhoto({ image_size: { width, height } });
+                        }}
                       />
+                      {showPreview && wallpaperImage && roomSize && (
+                        <WallpaperPreview
+                          roomSize={roomSize}
+                          wallpaperImage={wallpaperImage}
+                          boxes={completedBoxes}
+                          calibration={calibration}
+                          wallpaper={placementWallpaper}
+                          placement={stripPlanOptions}
+                          windows={previewWindows}
+                        />
+                      )}
                       <svg 
                         viewBox="0 0 100 100" 
                         preserveAspectRatio="none" 
                         className="absolute inset-0 w-full h-full pointer-events-none"
                       >
+                        {renderSuggestions()}
                         {completedBoxes.map((box, i) => renderBox(box, i))}
-                        {currentBox && renderBox(currentBox, -1, true)}
+                        {currentBox && (canvasMode === 'exclusion' ? renderExclusion(currentBox, 'current', true) : renderBox(currentBox, -1, true))}
+                        {renderPendingCorners()}
+                        {renderCalibrationLine()}
+                        {renderReferenceBox()}
                       </svg>
+                      {renderBoxOverlay()}
+                      {renderSuggestionControls()}
                     </div>
                   )}
                 </div>
               </div>
 
               {roomImage && (
-                <div className="flex items-center justify-between p-6 bg-white border border-slate-100 rounded-sm">
-                  <div className="space-y-1">
-                    <span className="label-spaced text-[#1a1a1a]">Wall Area Selection</span>
-                    <p className="label-secondary opacity-60 lowercase tracking-widest">{completedBoxes.length} boxes defined</p>
-                  </div>
-                  <div className="flex gap-4">
-                    <button onClick={undoLastBox} className="p-3 text-slate-300 hover:text-red-500 transition-colors flex items-center gap-2">
-                      <Trash2 className="w-4 h-4" />
-                      <span className="label-secondary text-[10px]">Undo Last</span>
-                    </button>
+                <div className="p-6 bg-white border border-slate-100 rounded-sm space-y-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <span className="label-spaced text-[#1a1a1a]">{t('setup.wallSelection')}</span>
+                      <p className="label-secondary opacity-60 lowercase tracking-widest">
+                        {t('setup.wallSummary', { boxes: completedBoxes.length, cutouts: completedBoxes.reduce((sum, b) => sum + (b.exclusions?.length || 0), 0) })}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap justify-end gap-2">
+                      {wallpaperImage && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); setShowPreview(!showPreview); }}
+                          title={t(calibration ? 'setup.previewCalibrated' : 'setup.previewUncalibrated')}
+                          className={`p-3 transition-colors flex items-center gap-2 ${showPreview ? 'text-[#8c734b]' : 'text-slate-300 hover:text-[#8c734b]'}`}
+                        >
+                          {showPreview ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                          <span className="label-secondary text-[10px]">{t('setup.preview')}</span>
+                        </button>
+                      )}
+                      <button onClick={suggestWalls} disabled={isDetecting} className="p-3 text-slate-300 hover:text-[#8c734b] transition-colors flex items-center gap-2 disabled:text-[#8c734b]">
+                        {isDetecting ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                        <span className="label-secondary text-[10px]">{t(isDetecting ? 'setup.detecting' : 'setup.suggestWalls')}</span>
+                      </button>
+                      <button onClick={toggleQuadMode} className={`p-3 transition-colors flex items-center gap-2 ${canvasMode === 'quad' ? 'text-[#2563eb]' : 'text-slate-300 hover:text-[#2563eb]'}`}>
+                        <Scan className="w-4 h-4" />
+                        <span className="label-secondary text-[10px]">{canvasMode === 'quad' ? t('setup.corner', { n: pendingCorners.length + 1 }) : t('setup.perspectiveWall')}</span>
+                      </button>
+                      <button onClick={toggleExclusionMode} className={`p-3 transition-colors flex items-center gap-2 ${canvasMode === 'exclusion' ? 'text-red-500' : 'text-slate-300 hover:text-red-500'}`}>
+                        <Scissors className="w-4 h-4" />
+                        <span className="label-secondary text-[10px]">{t('setup.cutOut')}</span>
+                      </button>
+                      {canvasMode === 'exclusion' && (
+                        <select
+                          className="border-b border-slate-200 text-[10px] uppercase tracking-widest font-bold bg-transparent outline-none focus:border-[#8c734b]"
+                          value={exclusionType}
+                          onChange={(e) => setExclusionType(e.target.value as ExclusionType)}
+                        >
+                          {Object.values(ExclusionType).map(type => <option key={type} value={type}>{t(`exclusion.${type}`)}</option>)}
+                        </select>
+                      )}
+                      <button onClick={toggleCalibrationMode} className={`p-3 transition-colors flex items-center gap-2 ${canvasMode === 'calibrate' ? 'text-[#8c734b]' : 'text-slate-300 hover:text-[#8c734b]'}`}>
+                        <Ruler className="w-4 h-4" />
+                        <span className="label-secondary text-[10px]">{t(canvasMode === 'calibrate' ? (calibrationStart ? 'setup.clickSecondEnd' : 'setup.clickFirstEnd') : 'setup.drawReference')}</span>
+                      </button>
+                      <button onClick={undoLastBox} className="p-3 text-slate-300 hover:text-red-500 transition-colors flex items-center gap-2">
+                        <Trash2 className="w-4 h-4" />
+                        <span className="label-secondary text-[10px]">{t('setup.undoLast')}</span>
+                      </button>
+                    </div>
                   </div>
+                  {suggestions.length > 0 && (
+                    <div className="flex items-center justify-between gap-4 p-3 border border-dashed border-[#8c734b]/40">
+                      <span className="text-[10px] uppercase tracking-widest text-[#8c734b]">{t('setup.suggestedWalls', { count: suggestions.length })}</span>
+                      <div className="flex gap-4">
+                        <button onClick={acceptAllSuggestions} className="text-[10px] font-bold uppercase tracking-widest text-[#8c734b] hover:text-[#1a1a1a] transition-colors">{t('setup.acceptAll')}</button>
+                        <button onClick={() => updatePhoto({ suggestions: [] })} className="text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-red-500 transition-colors">{t('setup.dismiss')}</button>
+                      </div>
+                    </div>
+                  )}
+                  {completedBoxes.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {completedBoxes.map((box, i) => (
+                        <div
+                          key={i}
+                          onClick={() => setSelectedBox(i)}
+                          className={`flex items-center gap-2 pl-3 pr-1 py-1 border cursor-pointer transition-colors ${i === selectedBox ? 'border-[#1e3a8a] text-[#1e3a8a]' : 'border-slate-100 text-slate-400 hover:border-slate-300'}`}
+                        >
+                          <span className="text-[10px] font-bold uppercase tracking-widest">{t('setup.wallChip', { n: i + 1 })}{box.corners ? t('setup.perspective') : ''}</span>
+                          <button onClick={(e) => { e.stopPropagation(); deleteBox(i); }} className="p-1 hover:text-red-500 transition-colors" aria-label={t('setup.deleteWall', { n: i + 1 })}>
+                            <X className="w-3 h-3" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -281,54 +1289,188 @@ const App: React.FC = () => {
             {/* Setup Right: Asset & Calibration */}
             <div className="space-y-10">
               <div className="space-y-4">
-                <label className="label-spaced">2. Wallpaper Asset</label>
+                <label className="label-spaced">{t('setup.wallpaperTitle')}</label>
                 <div className="relative border border-slate-100 bg-[#fafafa] min-h-[500px] flex items-center justify-center overflow-hidden rounded-sm group shadow-sm">
                   {!wallpaperImage ? (
                     <label className="absolute inset-0 flex flex-col items-center justify-center cursor-pointer hover:bg-white transition-all">
                       <Upload className="w-8 h-8 text-slate-200 mb-4" />
-                      <span className="label-secondary">Upload Panoramic Design</span>
+                      <span className="label-secondary">{t('setup.uploadWallpaper')}</span>
                       <input type="file" className="hidden" onChange={(e) => handleFileUpload(e, setWallpaperImage)} accept="image/*" />
                     </label>
                   ) : (
                     <div className="relative w-full h-full">
-                      <img src={`data:image/png;base64,${wallpaperImage.data}`} className="w-full h-full object-cover" alt="Wallpaper Design" draggable="false" />
-                      <button onClick={() => setWallpaperImage(null)} className="absolute top-4 right-4 p-3 bg-white/90 backdrop-blur rounded-full shadow-lg text-slate-400 hover:text-red-500 transition-all">
+                      <img src={toDataUrl(wallpaperImage)} className="w-full h-full object-cover" alt={t('setup.wallpaperAlt')} draggable="false" />
+                      <button onClick={() => { setWallpaperImage(null); setSelectedDesignId(null); }} className="absolute top-4 right-4 p-3 bg-white/90 backdrop-blur rounded-full shadow-lg text-slate-400 hover:text-red-500 transition-all">
                         <RefreshCw className="w-5 h-5" />
                       </button>
+                      {selectedDesign && (
+                        <div className="absolute bottom-0 inset-x-0 px-6 py-4 bg-white/90 backdrop-blur flex justify-between items-baseline">
+                          <span className="text-sm text-[#1a1a1a]">{selectedDesign.name}</span>
+                          <span className="label-secondary">{selectedDesign.sku} · {formatLength(selectedDesign.roll_width_cm)} × {formatLength(selectedDesign.roll_length_cm)}</span>
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
+                {wallpaperImage && !selectedDesign && (
+                  <div className="grid grid-cols-3 gap-6 p-6 bg-white border border-slate-100 rounded-sm">
+                    <label className="space-y-1">
+                      <span className="label-secondary block text-[9px]">{t('common.pattern')}</span>
+                      <select value={patternSpec.pattern_type} onChange={(e) => setPatternSpec({ ...patternSpec, pattern_type: e.target.value as PatternSpec['pattern_type'] })} className="w-full border-b border-slate-200 py-1 text-sm bg-transparent outline-none focus:border-[#8c734b]">
+                        <option value="panoramic">{t('common.panoramic')}</option>
+                        <option value="repeating">{t('common.repeating')}</option>
+                      </select>
+                    </label>
+                    {patternSpec.pattern_type === 'repeating' && (
+                      <>
+                        <label className="space-y-1">
+                          <span className="label-secondary block text-[9px]">{t('common.repeat', { unit: lengthUnit() })}</span>
+                          <input type="number" min={0} value={toDisplayLength(patternSpec.pattern_repeat_cm ?? 0)} onChange={(e) => setPatternSpec({ ...patternSpec, pattern_repeat_cm: fromDisplayLength(Number(e.target.value)) })} className="w-full border-b border-slate-200 py-1 text-sm outline-none focus:border-[#8c734b]" />
+                        </label>
+                        <label className="space-y-1">
+                          <span className="label-secondary block text-[9px]">{t('common.match')}</span>
+                          <select value={patternSpec.match_type} onChange={(e) => setPatternSpec({ ...patternSpec, match_type: e.target.value as MatchType })} className="w-full border-b border-slate-200 py-1 text-sm bg-transparent outline-none focus:border-[#8c734b]">
+                            <option value="straight">{t('match.straight')}</option>
+                            <option value="half_drop">{t('match.half_drop')}</option>
+                            <option value="random">{t('match.random')}</option>
+                          </select>
+                        </label>
+                      </>
+                    )}
+                  </div>
+                )}
+                {wallpaperImage && placementWallpaper.pattern_type !== 'repeating' && (
+                  <PanoramaPlacement
+                    wallpaperImage={wallpaperImage}
+                    wallpaper={placementWallpaper}
+                    options={stripPlanOptions}
+                    plan={placementPlan}
+                    photoCount={photos.length}
+                    onOptionsChange={setStripPlanOptions}
+                  />
+                )}
+                {(wallpaperImage || variants.length > 0) && (
+                  <div className="p-6 bg-white border border-slate-100 rounded-sm space-y-4">
+                    <div className="flex justify-between items-baseline">
+                      <span className="label-secondary text-[9px]">{t('setup.compareDesigns')}</span>
+                      <button onClick={queueVariant} disabled={!wallpaperImage} className="text-[10px] font-bold uppercase tracking-widest text-[#8c734b] hover:text-[#1a1a1a] transition-colors disabled:opacity-30">
+                        {t('setup.addComparison')}
+                      </button>
+                    </div>
+                    {variants.length === 0 ? (
+                      <p className="text-[10px] uppercase tracking-widest text-slate-300">{t('setup.compareHint')}</p>
+                    ) : (
+                      <div className="grid grid-cols-4 gap-3">
+                        {variants.map(v => (
+                          <div key={v.id} className="relative group/variant">
+                            <img src={toDataUrl(v.image)} className="w-full h-16 object-cover border border-slate-100" alt={v.name} draggable="false" />
+                            <span className="block mt-1 text-[9px] uppercase tracking-widest text-slate-400 truncate">{v.name}</span>
+                            <button onClick={() => removeVariant(v.id)} className="absolute top-1 right-1 p-1 bg-white/90 rounded-full text-slate-400 hover:text-red-500 opacity-0 group-hover/variant:opacity-100 transition-opacity" aria-label={t('common.remove', { name: v.name })}>
+                              <X className="w-3 h-3" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
 
+              <DesignCatalog
+                designs={designs}
+                selectedId={selectedDesignId}
+                canAddCurrent={!!wallpaperImage && !selectedDesign}
+                onSelect={selectDesign}
+                onAddCurrent={addUploadToCatalog}
+                onImport={importCatalog}
+                onExport={() => exportCatalogFile(designs)}
+                onDelete={removeDesign}
+              />
+
               <div className="p-10 border border-slate-100 bg-white rounded-sm space-y-10">
                 <section className="space-y-6">
-                  <label className="label-spaced">Spatial Calibration</label>
+                  <label className="label-spaced">{t('setup.calibration')}</label>
                   <div className="relative">
                     <select 
                       className="w-full border-b border-slate-200 py-4 text-[0.7rem] uppercase tracking-widest font-bold appearance-none bg-transparent outline-none focus:border-[#8c734b]"
                       value={refType}
-                      onChange={(e) => setRefType(e.target.value as ReferenceType)}
+                      onChange={(e) => setCalibration({ reference_type: e.target.value as ReferenceType })}
+                      disabled={!photo}
                     >
-                      <option value={ReferenceType.A4_PAPER}>A4 Paper Standard (29.7cm)</option>
-                      <option value={ReferenceType.DOOR_FRAME}>Door Leaf Reference (Custom CM)</option>
+                      <option value={ReferenceType.A4_PAPER}>{t('setup.refA4', { length: formatLength(A4_LONG_EDGE_CM, 1) })}</option>
+                      <option value={ReferenceType.DOOR_FRAME}>{t('setup.refDoor', { unit: lengthUnit() })}</option>
                     </select>
                     <ChevronRight className="absolute right-0 top-1/2 -translate-y-1/2 w-4 h-4 rotate-90 text-slate-300 pointer-events-none" />
                   </div>
                   {refType === ReferenceType.DOOR_FRAME && (
                     <div className="animate-in fade-in slide-in-from-top-2">
-                      <label className="label-secondary block mb-2">Object Height in CM</label>
-                      <input type="number" value={refHeight} onChange={(e) => setRefHeight(Number(e.target.value))} className="w-full border-b border-slate-200 py-2 text-2xl font-light outline-none focus:border-[#8c734b]" />
+                      <label className="label-secondary block mb-2">{t('setup.objectHeight', { unit: lengthUnit() })}</label>
+                      <input type="number" value={toDisplayLength(refHeight)} onChange={(e) => setCalibration({ ref_height_cm: fromDisplayLength(Number(e.target.value)) })} className="w-full border-b border-slate-200 py-2 text-2xl font-light outline-none focus:border-[#8c734b]" />
                     </div>
                   )}
+                  <p className="label-secondary flex items-center gap-2 normal-case tracking-widest">
+                    <Ruler className="w-3 h-3" />
+                    {calibration?.pixels_per_cm
+                      ? t('setup.referenceSet', { scale: formatScale(calibration.pixels_per_cm) })
+                      : t('setup.referenceHint')}
+                  </p>
                 </section>
 
                 <div className="pt-4">
+                  {(heightWarnings.length > 0 || calibrationIssues.length > 0) && (
+                    <div className={`mb-6 p-4 border space-y-3 text-left ${referenceMissing ? 'bg-red-50 border-red-100 text-red-600' : 'bg-amber-50 border-amber-100 text-amber-700'}`}>
+                      {calibrationIssues.length > 0 && (
+                        <>
+                          <div className="text-[10px] uppercase tracking-widest font-bold flex items-center gap-2"><AlertCircle className="w-4 h-4 shrink-0" /> {t('setup.checkReference')}</div>
+                          {calibrationIssues.map(issue => (
+                            <p key={issue.photo_index} className="text-[11px] leading-relaxed">
+                              {photos.length > 1 ? t('setup.photoPrefix', { n: issue.photo_index + 1 }) : ''}
+                              {issue.kind === 'not_found'
+                                ? t('setup.referenceNotFound')
+                                : t('setup.referenceLowConfidence', { percent: Math.round((issue.confidence ?? 0) * 100) })}
+                            </p>
+                          ))}
+                        </>
+                      )}
+                      {heightWarnings.length > 0 && (
+                        <>
+                          <div className="text-[10px] uppercase tracking-widest font-bold flex items-center gap-2"><AlertCircle className="w-4 h-4 shrink-0" /> {t('setup.tallWalls', { length: formatLength(heightWarnings[0].panel_length_cm) })}</div>
+                          {heightWarnings.map(w => (
+                            <p key={`${w.photo_index}-${w.region_index}`} className="text-[11px] leading-relaxed">
+                              {t('setup.tallWall', {
+                                wall: wallLabel(photos.length, w.photo_index, w.region_index),
+                                height: formatLength(w.height_cm),
+                                panels: w.panels_per_strip,
+                                extra: w.extra_panels,
+                                length: formatLength(w.custom_length_cm)
+                              })}
+                            </p>
+                          ))}
+                        </>
+                      )}
+                      {!referenceMissing && <button onClick={continueToRender} className="btn-outline w-full">{t('setup.renderAnyway')}</button>}
+                    </div>
+                  )}
+                  <label className="flex items-center justify-between mb-6">
+                    <span className="label-secondary text-[9px]">{t('setup.renderSize')}</span>
+                    <select value={renderSize} onChange={(e) => setRenderSize(e.target.value as RenderSize)} className="border-b border-slate-200 py-1 text-sm bg-transparent outline-none focus:border-[#8c734b]">
+                      {(Object.keys(RENDER_SIZE_PX) as RenderSize[]).map(size => (
+                        <option key={size} value={size}>{size} · {RENDER_SIZE_PX[size]}px</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center justify-between mb-6">
+                    <span className="label-secondary text-[9px]">{t('setup.renderCount')}</span>
+                    <select value={renderCount} onChange={(e) => setRenderCount(Number(e.target.value))} className="border-b border-slate-200 py-1 text-sm bg-transparent outline-none focus:border-[#8c734b]">
+                      {RENDER_COUNTS.map(count => <option key={count} value={count}>{count}</option>)}
+                    </select>
+                  </label>
                   <button 
-                    disabled={!roomImage || !wallpaperImage || completedBoxes.length === 0}
+                    disabled={!wallpaperImage || !photos.some(p => p.boxes.length > 0)}
                     onClick={startProcess}
                     className="w-full btn-fromental flex items-center justify-center gap-3"
                   >
-                    Synthesize Visualization
+                    {t('setup.synthesize')}
                   </button>
                   {error && <div className="mt-4 p-3 bg-red-50 border border-red-100 text-red-600 text-[10px] uppercase tracking-widest font-bold flex items-center gap-2"><AlertCircle className="w-4 h-4" /> {error}</div>}
                 </div>
@@ -341,24 +1483,116 @@ const App: React.FC = () => {
             <div className="grid grid-cols-1 lg:grid-cols-12 gap-20 items-start">
               {/* Left: Final Visualization */}
               <div className="lg:col-span-8">
+                {photos.length > 1 && (
+                  <div className="flex flex-wrap gap-2 mb-6">
+                    {photos.map((p, i) => p.analysis && (
+                      <button
+                        key={p.id}
+                        onClick={() => switchPhoto(i)}
+                        className={`px-4 py-2 border text-[10px] font-bold uppercase tracking-widest transition-colors ${i === activePhoto ? 'border-[#8c734b] text-[#8c734b]' : 'border-slate-100 text-slate-400 hover:border-slate-300'} ${p.rendered_image ? '' : 'opacity-50'}`}
+                      >
+                        {t('common.photo', { n: i + 1 })}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 <div className="relative aspect-[16/10] bg-[#fbfbfb] border border-slate-100 overflow-hidden shadow-sm group">
-                  {visualizedImage && <img src={visualizedImage} className="w-full h-full object-cover" alt="Visualization Synthesis" />}
-                  {(isGenerating || isAnalyzing) && (
+                  {visualizedImage && roomImage && (
+                    <BeforeAfter
+                      before={toDataUrl(roomImage)}
+                      after={visualizedImage}
+                      aspectRatio={roomSize ? roomSize.width / roomSize.height : 16 / 10}
+                      regions={photo?.analysis?.regions ?? []}
+                      calibration={photo?.analysis?.calibration ?? null}
+                      referenceDoubtful={referenceDoubtful}
+                      showOutlines={showOutlines}
+                    />
+                  )}
+                  {(isAnalyzing || (isGenerating && !visualizedImage)) && (
                     <div className="absolute inset-0 bg-white/95 backdrop-blur-md flex flex-col items-center justify-center">
                       <RefreshCw className="w-12 h-12 text-[#8c734b] animate-spin mb-8" />
                       <p className="font-luxury text-3xl tracking-widest text-[#1a1a1a] uppercase">
-                        {isAnalyzing ? 'Analyzing Spatial Context...' : 'Performing Spatial Synthesis...'}
+                        {t(isAnalyzing ? 'results.analyzing' : 'results.synthesizing')}
                       </p>
-                      <p className="label-secondary mt-4 opacity-50 tracking-[0.2em]">Calculating panoramic sequence and lighting</p>
+                      <p className="label-secondary mt-4 mb-10 opacity-50 tracking-[0.2em]">{t('results.calculating')}</p>
+                      <PipelineProgress pipeline={pipeline} now={now} onCancel={cancelRun} />
                     </div>
                   )}
                 </div>
-                <div className="flex gap-8 mt-12">
-                   <button onClick={reset} className="btn-outline px-12">New Simulation</button>
-                   <button className="btn-outline px-12 flex items-center gap-2">
-                     <Download className="w-4 h-4" /> Export High-Res Render
+                {isGenerating && visualizedImage && (
+                  <div className="mt-6">
+                    <PipelineProgress pipeline={pipeline} now={now} onCancel={cancelRun} />
+                  </div>
+                )}
+                {renderCandidates.length > 1 && (
+                  <div className="mt-6 space-y-3">
+                    <span className="label-secondary text-[9px] block">{t('results.renderOptions')}</span>
+                    <div className="flex flex-wrap gap-3">
+                      {renderCandidates.map((candidate, i) => (
+                        <button
+                          key={i}
+                          onClick={() => updatePhoto({ rendered_image: candidate })}
+                          className={`w-28 border transition-colors ${candidate === visualizedImage ? 'border-[#8c734b]' : 'border-slate-100 hover:border-slate-300'}`}
+                        >
+                          <img src={candidate} className="w-full h-16 object-cover" alt={t('results.renderOption', { n: i + 1 })} draggable="false" />
+                          <span className={`block py-1 text-[9px] uppercase tracking-widest ${candidate === visualizedImage ? 'text-[#8c734b] font-bold' : 'text-slate-400'}`}>{t('results.renderOption', { n: i + 1 })}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {visualizedImage && (
+                  <button onClick={() => setShowOutlines(!showOutlines)} className={`mt-4 label-secondary text-[10px] flex items-center gap-2 transition-colors ${showOutlines ? 'text-[#8c734b]' : 'hover:text-[#8c734b]'}`}>
+                    {showOutlines ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />} {t(showOutlines ? 'results.hideOutlines' : 'results.showOutlines')}
+                  </button>
+                )}
+                <div className="flex flex-wrap gap-8 mt-12">
+                   <button onClick={reset} className="btn-outline px-12">{t('results.newSimulation')}</button>
+                   <button onClick={editSetup} disabled={isAnalyzing || isGenerating} className="btn-outline px-12 disabled:opacity-40">{t('results.adjustSetup')}</button>
+                   <button onClick={regenerateRender} disabled={!photo?.analysis || isAnalyzing || isGenerating} className="btn-outline px-12 flex items-center gap-2 disabled:opacity-40">
+                     <RefreshCw className="w-4 h-4" /> {t('results.regenerate')}
+                   </button>
+                   <button disabled={!visualizedImage} onClick={() => visualizedImage && downloadRender(visualizedImage)} className="btn-outline px-12 flex items-center gap-2 disabled:opacity-40">
+                     <Download className="w-4 h-4" /> {t('results.exportRender')}
+                   </button>
+                   <button disabled={!estimate} onClick={exportReport} className="btn-outline px-12 flex items-center gap-2 disabled:opacity-40">
+                     <FileText className="w-4 h-4" /> {t('results.report')}
                    </button>
                 </div>
+                {error && <div className="mt-4 p-3 bg-red-50 border border-red-100 text-red-600 text-[10px] uppercase tracking-widest font-bold flex items-center gap-2"><AlertCircle className="w-4 h-4" /> {error}</div>}
+
+                {variants.length > 0 && photo && (
+                  <div className="mt-20">
+                    <DesignComparison
+                      current={{ id: 'current', name: designName, render: visualizedImage, rolls: estimate?.total_rolls ?? null }}
+                      variants={variants.map((v, i) => ({ id: v.id, name: v.name, render: v.renders[photo.id] ?? null, rolls: variantRolls[i] }))}
+                      onPromote={promoteVariant}
+                      onRemove={removeVariant}
+                    />
+                  </div>
+                )}
+
+                {wallpaperImage && roomWallpaper && roomWallpaper.pattern_type !== 'repeating' && (
+                  <div className="mt-20">
+                    <PanoramaPlacement
+                      wallpaperImage={wallpaperImage}
+                      wallpaper={roomWallpaper}
+                      options={stripPlanOptions}
+                      plan={stripPlan}
+                      photoCount={photos.length}
+                      onOptionsChange={setStripPlanOptions}
+                    />
+                  </div>
+                )}
+
+                {roomImage && stripPlan && stripPlan.strips.some(s => (s.photo_index ?? 0) === activePhoto) && (
+                  <div className="mt-20">
+                    <HangingPlan
+                      roomImage={roomImage}
+                      plan={{ ...stripPlan, strips: stripPlan.strips.filter(s => (s.photo_index ?? 0) === activePhoto) }}
+                    />
+                  </div>
+                )}
               </div>
 
               {/* Right: Requirements Card */}
@@ -369,22 +1603,82 @@ const App: React.FC = () => {
                     <Layers className="w-24 h-24 text-slate-300" />
                   </div>
 
-                  <div className="label-spaced mb-16 text-[#8c734b] text-[0.75rem]">Estimated Requirements</div>
+                  <div className={`label-spaced text-[#8c734b] text-[0.75rem] ${selectedDesign ? 'mb-4' : 'mb-16'}`}>{t('results.requirements')}</div>
+                  {selectedDesign && <div className="label-secondary mb-12">{selectedDesign.name} · {selectedDesign.sku}</div>}
                   
                   <div className="text-[12rem] font-light leading-none text-[#1a1a1a] mb-4">
-                    {metadata?.total_rolls_estimated || "—"}
+                    {estimate?.total_rolls || "—"}
                   </div>
                   
                   <div className="label-spaced text-[#94a3b8] mb-16 text-[0.7rem] tracking-[0.3em]">
-                    Unique 70cm Panoramic Panels
+                    {estimate?.pattern_type === 'repeating'
+                      ? t('results.rollsOf', { size: `${formatLength(roomWallpaper?.roll_width_cm ?? DEFAULT_WALLPAPER.roll_width_cm)} × ${formatLength(roomWallpaper?.roll_length_cm ?? DEFAULT_WALLPAPER.roll_length_cm)}` })
+                      : t('results.uniquePanels', { width: formatLength(roomWallpaper?.roll_width_cm ?? DEFAULT_WALLPAPER.roll_width_cm) })}
                   </div>
+
+                  {estimate && estimate.regions.length > 0 && (
+                    <div className="w-full mb-12 space-y-3">
+                      {estimate.regions.map((r) => (
+                        <div key={`${r.photo_index}-${r.region_index}`} className="flex justify-between items-baseline border-b border-slate-50 pb-2 text-[0.6rem] uppercase tracking-[0.2em] text-slate-400">
+                          <span className="font-bold text-[#1a1a1a]">{wallLabel(photos.length, r.photo_index, r.region_index)}</span>
+                          <span>{formatLength(r.width_cm)} × {formatLength(r.height_cm)}</span>
+                          <span title={t('results.stripBreakdown', { full: r.full_strips, partial: r.partial_strips, skipped: r.skipped_strips })}>
+                            {r.drop_length_cm !== null
+                              ? t('results.drops', { count: r.strips, length: formatLength(r.drop_length_cm), perRoll: r.drops_per_roll ?? 0 })
+                              : t('results.strips', { count: r.strips, drops: r.drops_per_strip })}{r.partial_strips + r.skipped_strips > 0 ? t('results.cutSkip', { cut: r.partial_strips, skip: r.skipped_strips }) : ''}
+                          </span>
+                          <span className="font-bold text-[#8c734b]">{r.rolls}</span>
+                        </div>
+                      ))}
+                      <div className="flex justify-between pt-2 text-[0.6rem] uppercase tracking-[0.2em] text-slate-400">
+                        <span>{t('results.waste')}</span>
+                        <span>{formatArea(estimate.waste_sq_m)} ({Math.round(estimate.waste_percent)}%)</span>
+                      </div>
+                      {estimate.pattern_type === 'repeating' && (
+                        <div className="flex justify-between text-[0.6rem] uppercase tracking-[0.2em] text-slate-400">
+                          <span>{t('results.patternMatch')}</span>
+                          <span>{t('results.repeatMatch', { repeat: formatLength(roomWallpaper?.pattern_repeat_cm ?? 0), match: t(`match.${roomWallpaper?.match_type ?? 'straight'}` as MessageKey) })}</span>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {calibrationIssues.length > 0 && (
+                    <div className="w-full mb-6 p-3 bg-amber-50 border border-amber-100 text-amber-700 text-[10px] uppercase tracking-widest font-bold flex items-start gap-2 text-left">
+                      <AlertCircle className="w-4 h-4 shrink-0" />
+                      <span>{calibrationIssues.map(issue => `${photos.length > 1 ? t('setup.photoPrefix', { n: issue.photo_index + 1 }) : ''}${t('results.reference', {
+                        status: issue.kind === 'not_found' ? t('results.referenceNotFound') : t('results.referenceConfidence', { percent: Math.round((issue.confidence ?? 0) * 100) })
+                      })}`).join(' · ')}</span>
+                    </div>
+                  )}
+
+                  {heightWarnings.length > 0 && (
+                    <div className="w-full mb-6 p-3 bg-amber-50 border border-amber-100 text-amber-700 text-[10px] uppercase tracking-widest font-bold flex items-start gap-2 text-left">
+                      <AlertCircle className="w-4 h-4 shrink-0" />
+                      <span>{heightWarnings.map(w => t('results.tallWall', {
+                        wall: wallLabel(photos.length, w.photo_index, w.region_index),
+                        panels: w.panels_per_strip,
+                        length: formatLength(w.custom_length_cm)
+                      })).join(' · ')}</span>
+                    </div>
+                  )}
+
+                  {estimate?.model_disagrees && (
+                    <div className="w-full mb-12 p-3 bg-amber-50 border border-amber-100 text-amber-700 text-[10px] uppercase tracking-widest font-bold flex items-center gap-2 text-left">
+                      <AlertCircle className="w-4 h-4 shrink-0" /> {t('results.modelDisagrees', { strips: estimate.model_total_rolls ?? '—' })}
+                    </div>
+                  )}
                   
                   <div className="w-full h-[1px] bg-slate-100 mb-16 max-w-[200px]"></div>
                   
                   <p className="text-[0.65rem] text-slate-400 uppercase tracking-[0.25em] leading-[2] italic text-center max-w-[280px]">
-                    Based on the measured horizontal span and vertical height, this unique print sequence ensures a seamless panoramic fit across all identified segments.
+                    {estimate?.pattern_type === 'repeating'
+                      ? t('results.repeatingNote')
+                      : t('results.panoramicNote')}
                   </p>
                 </div>
+
+                {quote && <QuotePanel quote={quote} settings={pricing} onSettingsChange={setPricing} />}
               </div>
             </div>
           </div>
@@ -395,7 +1689,8 @@ const App: React.FC = () => {
       <footer className="px-12 py-10 border-t border-slate-50 flex justify-between items-center bg-white">
         <div className="flex items-center text-[0.7rem] uppercase tracking-[0.3em] font-bold text-slate-400">
           <span className={`status-dot ${isAnalyzing || isGenerating ? 'animate-pulse bg-[#8c734b]' : 'bg-[#1a1a1a]'}`}></span>
-          System State: {isAnalyzing ? 'Analyzing Spatial Context' : isGenerating ? 'Synthesizing Render' : 'Visualizer Active'}
+          {t('app.status', { state: t(isAnalyzing ? 'app.status.analyzing' : isGenerating ? 'app.status.generating' : 'app.status.idle') })}
+          {!provider.requiresApiKey && <span className="ml-4 text-[#8c734b]">· {provider.label}</span>}
         </div>
         <div className="text-[0.7rem] uppercase tracking-[0.3em] font-bold text-slate-400">
           © FROMENTAL 2025
@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { CalibrationData, ReferenceType, RegionGeometry } from '../types';
+import { t } from '../services/i18nService';
+import { formatScale } from '../services/unitService';
+
+interface BeforeAfterProps {
+  before: string;
+  after: string;
+  aspectRatio: number; // Width over height of the room photo
+  regions: RegionGeometry[];
+  calibration: CalibrationData | null; // Its detected reference box is always outlined, with the measured scale
+  referenceDoubtful: boolean; // Drawn amber, as on the setup canvas
+  showOutlines: boolean;
+}
+
+// Frame ratio of the results view; photos wider than this fill its width, taller ones its height
+const FRAME_RATIO = 16 / 10;
+
+/**
+ * Original room and render stacked at the photo's own ratio, with a draggable divider revealing one over the other.
+ */
+const BeforeAfter: React.FC<BeforeAfterProps> = ({ before, after, aspectRatio, regions, calibration, referenceDoubtful, showOutlines }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [split, setSplit] = useState(50);
+  const [dragging, setDragging] = useState(false);
+
+  const moveTo = (clientX: number) => {
+    if (!ref.current) return;
+    const rect = ref.current.getBoundingClientRect();
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const wide = aspectRatio >= FRAME_RATIO;
+  const referenceBox = calibration?.reference_box;
+  const referenceColor = referenceDoubtful ? '#f59e0b' : '#10b981';
+
+  return (
+    <div className="absolute inset-0 flex items-center justify-center">
+      <div
+        ref={ref}
+        className="relative select-none touch-none cursor-ew-resize"
+        style={{ aspectRatio, width: wide ? '100%' : 'auto', height: wide ? 'auto' : '100%' }}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          setDragging(true);
+          moveTo(e.clientX);
+        }}
+        onPointerMove={(e) => dragging && moveTo(e.clientX)}
+        onPointerUp={() => setDragging(false)}
+        onPointerCancel={() => setDragging(false)}
+      >
+        <img src={before} className="absolute inset-0 w-full h-full pointer-events-none" alt={t('compare.originalAlt')} draggable={false} />
+        <img
+          src={after}
+          className="absolute inset-0 w-full h-full pointer-events-none"
+          style={{ clipPath: `inset(0 0 0 ${split}%)` }}
+          alt={t('compare.renderAlt')}
+          draggable={false}
+        />
+        {showOutlines && (
+          <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+            {regions.map((region, i) => (
+              <g key={i}>
+                <polygon points={region.points.map(p => p.join(',')).join(' ')} fill="none" stroke="#8c734b" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+                {(region.exclusions || []).map((exclusion, j) => (
+                  <polygon key={j} points={exclusion.points.map(p => p.join(',')).join(' ')} fill="none" stroke="#8c734b" strokeWidth="1" strokeDasharray="4,3" vectorEffect="non-scaling-stroke" />
+                ))}
+              </g>
+            ))}
+          </svg>
+        )}
+        {referenceBox && (
+          <>
+            <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+              <rect
+                x={referenceBox[0][0]}
+                y={referenceBox[0][1]}
+                width={referenceBox[1][0] - referenceBox[0][0]}
+                height={referenceBox[1][1] - referenceBox[0][1]}
+                fill="none"
+                stroke={referenceColor}
+                strokeWidth="1.5"
+                strokeDasharray="4,3"
+                vectorEffect="non-scaling-stroke"
+              />
+            </svg>
+            <span
+              className="absolute -translate-y-full px-1.5 py-0.5 text-white text-[9px] font-bold uppercase tracking-widest whitespace-nowrap pointer-events-none"
+              style={{ left: `${referenceBox[0][0]}%`, top: `${referenceBox[0][1]}%`, backgroundColor: referenceColor }}
+            >
+              {t('results.detectedReference', {
+                object: t(calibration?.reference_type === ReferenceType.DOOR_FRAME ? 'results.detectedDoor' : 'results.detectedA4'),
+                scale: calibration?.pixels_per_cm ? formatScale(calibration.pixels_per_cm) : '—'
+              })}
+            </span>
+          </>
+        )}
+        <div className="absolute inset-y-0 w-[2px] bg-white shadow pointer-events-none" style={{ left: `${split}%` }}>
+          <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 left-1/2 w-8 h-8 rounded-full bg-white border border-slate-200 flex items-center justify-center text-[#8c734b] text-[10px] font-bold">
+            ⇔
+          </div>
+        </div>
+        <span className="absolute top-4 left-4 px-2 py-1 bg-black/50 text-white text-[9px] uppercase tracking-widest pointer-events-none">{t('compare.before')}</span>
+        <span className="absolute top-4 right-4 px-2 py-1 bg-black/50 text-white text-[9px] uppercase tracking-widest pointer-events-none">{t('compare.after')}</span>
+      </div>
+    </div>
+  );
+};
+
+export default BeforeAfter;
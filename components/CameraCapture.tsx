@@ -0,0 +1,152 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Check, RefreshCw, X } from 'lucide-react';
+import { ImageUpload, ReferenceType } from '../types';
+import { DeviceTilt, LEVEL_TOLERANCE_DEG, captureFrame, motionNeedsPermission, openCamera, requestMotionPermission, stopCamera, tiltFromGravity } from '../services/captureService';
+import { toDataUrl } from '../services/imageService';
+import { MessageKey, t } from '../services/i18nService';
+
+interface CameraCaptureProps {
+  referenceType: ReferenceType;
+  onCapture: (image: ImageUpload) => void;
+  onClose: () => void;
+}
+
+const referenceHint: Record<ReferenceType, MessageKey> = {
+  [ReferenceType.A4_PAPER]: 'camera.hintA4',
+  [ReferenceType.DOOR_FRAME]: 'camera.hintDoor'
+};
+
+/**
+ * Full-screen viewfinder for shooting a wall in-app, with framing and level guides and a retake/accept step.
+ */
+const CameraCapture: React.FC<CameraCaptureProps> = ({ referenceType, onCapture, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [still, setStill] = useState<ImageUpload | null>(null);
+  const [tilt, setTilt] = useState<DeviceTilt | null>(null);
+  const [motionLocked, setMotionLocked] = useState(motionNeedsPermission());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active: MediaStream | null = null;
+    let cancelled = false;
+    openCamera()
+      .then(s => {
+        if (cancelled) return stopCamera(s);
+        active = s;
+        setStream(s);
+      })
+      .catch(err => setError(err.message));
+    return () => {
+      cancelled = true;
+      stopCamera(active);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (videoRef.current && stream) videoRef.current.srcObject = stream;
+  }, [stream, still]);
+
+  useEffect(() => {
+    if (motionLocked) return;
+    const onMotion = (e: DeviceMotionEvent) => {
+      const gravity = e.accelerationIncludingGravity;
+      if (gravity) setTilt(tiltFromGravity(gravity, screen.orientation?.angle ?? 0));
+    };
+    window.addEventListener('devicemotion', onMotion);
+    return () => window.removeEventListener('devicemotion', onMotion);
+  }, [motionLocked]);
+
+  const enableLevel = async () => {
+    setMotionLocked(!(await requestMotionPermission()));
+  };
+
+  const takeShot = () => {
+    if (!videoRef.current) return;
+    try {
+      setStill(captureFrame(videoRef.current));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('error.cameraFailed'));
+    }
+  };
+
+  const level = tilt !== null && Math.abs(tilt.roll_deg) <= LEVEL_TOLERANCE_DEG;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col animate-fade-in">
+      <div className="flex items-center justify-between px-8 py-6 text-white">
+        <span className="label-spaced text-white flex items-center gap-2"><Camera className="w-4 h-4" /> {t('camera.title')}</span>
+        <button onClick={onClose} className="text-white/60 hover:text-white transition-colors" aria-label={t('camera.close')}>
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="relative flex-1 flex items-center justify-center overflow-hidden">
+        {error ? (
+          <p className="label-secondary text-white/70 normal-case tracking-widest text-center px-8">{error}</p>
+        ) : still ? (
+          <img src={toDataUrl(still)} className="max-w-full max-h-full object-contain" alt={t('camera.capturedAlt')} />
+        ) : (
+          <div className="relative max-w-full max-h-full">
+            <video ref={videoRef} autoPlay playsInline muted className="block max-w-full max-h-[calc(100vh-12rem)]" />
+            {/* Rule of thirds plus a safe frame the reference object should stay inside */}
+            <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+              {[33.33, 66.67].map(v => (
+                <g key={v}>
+                  <line x1={v} y1={0} x2={v} y2={100} stroke="rgba(255,255,255,0.25)" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                  <line x1={0} y1={v} x2={100} y2={v} stroke="rgba(255,255,255,0.25)" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                </g>
+              ))}
+              <rect x={8} y={8} width={84} height={84} fill="none" stroke="#8c734b" strokeWidth="1.5" strokeDasharray="6,4" vectorEffect="non-scaling-stroke" />
+            </svg>
+            {tilt && (
+              <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                <div
+                  className={`w-1/2 h-[2px] transition-colors ${level ? 'bg-emerald-400' : 'bg-amber-400'}`}
+                  style={{ transform: `rotate(${-tilt.roll_deg}deg)` }}
+                />
+              </div>
+            )}
+            <div className="absolute top-4 inset-x-4 text-center">
+              <span className="inline-block px-3 py-1 bg-black/50 text-white text-[10px] uppercase tracking-widest">{t(referenceHint[referenceType])}</span>
+            </div>
+            {tilt && (
+              <div className="absolute bottom-4 inset-x-4 text-center">
+                <span className={`inline-block px-3 py-1 bg-black/50 text-[10px] uppercase tracking-widest font-bold ${level ? 'text-emerald-400' : 'text-amber-400'}`}>
+                  {level ? t('camera.level') : t('camera.tilted', { degrees: Math.abs(tilt.roll_deg).toFixed(1) })} · {t(tilt.pitch_deg >= 0 ? 'camera.up' : 'camera.down')} {Math.abs(tilt.pitch_deg).toFixed(0)}°
+                </span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-center gap-6 px-8 py-8">
+        {still ? (
+          <>
+            <button onClick={() => setStill(null)} className="btn-outline text-white border-white/30 hover:bg-white/10 hover:border-white flex items-center gap-2">
+              <RefreshCw className="w-3 h-3" /> {t('camera.retake')}
+            </button>
+            <button onClick={() => onCapture(still)} className="btn-fromental flex items-center gap-2 px-10">
+              <Check className="w-4 h-4" /> {t('camera.usePhoto')}
+            </button>
+          </>
+        ) : (
+          <>
+            {motionLocked && (
+              <button onClick={enableLevel} className="btn-outline text-white border-white/30 hover:bg-white/10 hover:border-white">{t('camera.enableLevel')}</button>
+            )}
+            <button
+              onClick={takeShot}
+              disabled={!stream || !!error}
+              className="w-16 h-16 rounded-full border-4 border-white bg-white/20 hover:bg-white/40 disabled:opacity-30 transition-colors"
+              aria-label={t('camera.takePhoto')}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { BookOpen, Download, Plus, Trash2, Upload } from 'lucide-react';
+import { MatchType, PatternType, WallpaperDesign } from '../types';
+import { toDataUrl } from '../services/imageService';
+import { formatMoney, isCurrencyCode } from '../services/pricingService';
+import { t } from '../services/i18nService';
+import { formatLength, fromDisplayLength, lengthUnit, toDisplayLength } from '../services/unitService';
+
+export type DesignDraft = Omit<WallpaperDesign, 'id' | 'image'>;
+
+interface DesignCatalogProps {
+  designs: WallpaperDesign[];
+  selectedId: string | null;
+  canAddCurrent: boolean; // An uploaded image not yet in the catalog
+  onSelect: (design: WallpaperDesign) => void;
+  onAddCurrent: (draft: DesignDraft) => Promise<void>;
+  onImport: (file: File) => Promise<void>;
+  onExport: () => void;
+  onDelete: (id: string) => Promise<void>;
+}
+
+const EMPTY_DRAFT: DesignDraft = {
+  sku: '',
+  name: '',
+  pattern_type: 'panoramic',
+  roll_width_cm: 70,
+  roll_length_cm: 300,
+  master_width_cm: 500,
+  master_height_cm: 300,
+  price: { amount: 0, currency: 'GBP' }
+};
+
+const formatPrice = (design: WallpaperDesign) =>
+  design.price.amount > 0 ? formatMoney(design.price.amount, design.price.currency) : '—';
+
+/**
+ * Design picker for the wallpaper asset panel, backed by the local catalog.
+ */
+const DesignCatalog: React.FC<DesignCatalogProps> = ({ designs, selectedId, canAddCurrent, onSelect, onAddCurrent, onImport, onExport, onDelete }) => {
+  const [draft, setDraft] = useState<DesignDraft | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      setStatus(success);
+    } catch (err) {
+      setStatus(err instanceof Error && err.message ? err.message : t('catalog.failed'));
+    }
+  };
+
+  const numberField = (label: string, key: 'roll_width_cm' | 'roll_length_cm' | 'master_width_cm' | 'master_height_cm') => draft && (
+    <label className="space-y-1">
+      <span className="label-secondary block text-[9px]">{label}</span>
+      <input type="number" min={1} value={toDisplayLength(draft[key])} onChange={(e) => setDraft({ ...draft, [key]: fromDisplayLength(Number(e.target.value)) })} className="w-full border-b border-slate-200 py-1 text-sm outline-none focus:border-[#8c734b]" />
+    </label>
+  );
+
+  return (
+    <div className="p-6 bg-white border border-slate-100 rounded-sm space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <span className="label-spaced text-[#1a1a1a] flex items-center gap-2"><BookOpen className="w-4 h-4" /> {t('catalog.title')}</span>
+        <div className="flex gap-2">
+          {canAddCurrent && (
+            <button onClick={() => setDraft(draft ? null : EMPTY_DRAFT)} className="p-2 text-slate-300 hover:text-[#8c734b] transition-colors flex items-center gap-2">
+              <Plus className="w-4 h-4" /><span className="label-secondary text-[10px]">{t('catalog.addUpload')}</span>
+            </button>
+          )}
+          <label className="p-2 text-slate-300 hover:text-[#8c734b] transition-colors flex items-center gap-2 cursor-pointer">
+            <Upload className="w-4 h-4" /><span className="label-secondary text-[10px]">{t('common.import')}</span>
+            <input
+              type="file"
+              className="hidden"
+              accept="application/json,.json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) run(() => onImport(file), t('catalog.imported'));
+              }}
+            />
+          </label>
+          <button onClick={onExport} disabled={designs.length === 0} className="p-2 text-slate-300 hover:text-[#8c734b] transition-colors flex items-center gap-2 disabled:opacity-40">
+            <Download className="w-4 h-4" /><span className="label-secondary text-[10px]">{t('common.export')}</span>
+          </button>
+        </div>
+      </div>
+
+      {draft && (
+        <div className="grid grid-cols-2 gap-4 p-4 bg-[#fafafa]">
+          <label className="space-y-1">
+            <span className="label-secondary block text-[9px]">{t('catalog.sku')}</span>
+            <input value={draft.sku} onChange={(e) => setDraft({ ...draft, sku: e.target.value })} className="w-full border-b border-slate-200 py-1 text-sm bg-transparent outline-none focus:border-[#8c734b]" />
+          </label>
+          <label className="space-y-1">
+            <span className="label-secondary block text-[9px]">{t('common.name')}</span>
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className="w-full border-b border-slate-200 py-1 text-sm bg-transparent outline-none focus:border-[#8c734b]" />
+          </label>
+          <label className="space-y-1">
+            <span className="label-secondary block text-[9px]">{t('common.pattern')}</span>
+            <select value={draft.pattern_type} onChange={(e) => setDraft({ ...draft, pattern_type: e.target.value as PatternType })} className="w-full border-b border-slate-200 py-1 text-sm bg-transparent outline-none focus:border-[#8c734b]">
+              <option value="panoramic">{t('common.panoramic')}</option>
+              <option value="repeating">{t('common.repeating')}</option>
+            </select>
+          </label>
+          <label className="space-y-1">
+            <span className="label-secondary block text-[9px]">{t('catalog.pricePerRoll')}</span>
+            <div className="flex gap-2">
+              <input type="number" min={0} value={draft.price.amount} onChange={(e) => setDraft({ ...draft, price: { ...draft.price, amount: Number(e.target.value) } })} className="w-full border-b border-slate-200 py-1 text-sm bg-transparent outline-none focus:border-[#8c734b]" />
+              <input value={draft.price.currency} maxLength={3} onChange={(e) => setDraft({ ...draft, price: { ...draft.price, currency: e.target.value.toUpperCase() } })} aria-invalid={!isCurrencyCode(draft.price.currency)} className={`w-14 border-b py-1 text-sm bg-transparent outline-none focus:border-[#8c734b] ${isCurrencyCode(draft.price.currency) ? 'border-slate-200' : 'border-red-400 text-red-500'}`} />
+            </div>
+          </label>
+          {draft.pattern_type === 'repeating' && (
+            <>
+              <label className="space-y-1">
+                <span className="label-secondary block text-[9px]">{t('common.repeat', { unit: lengthUnit() })}</span>
+                <input type="number" min={0} value={toDisplayLength(draft.pattern_repeat_cm ?? 0)} onChange={(e) => setDraft({ ...draft, pattern_repeat_cm: fromDisplayLength(Number(e.target.value)) })} className="w-full border-b border-slate-200 py-1 text-sm outline-none focus:border-[#8c734b]" />
+              </label>
+              <label className="space-y-1">
+                <span className="label-secondary block text-[9px]">{t('common.match')}</span>
+                <select value={draft.match_type ?? 'straight'} onChange={(e) => setDraft({ ...draft, match_type: e.target.value as MatchType })} className="w-full border-b border-slate-200 py-1 text-sm bg-transparent outline-none focus:border-[#8c734b]">
+                  <option value="straight">{t('match.straight')}</option>
+                  <option value="half_drop">{t('match.half_drop')}</option>
+                  <option value="random">{t('match.random')}</option>
+                </select>
+              </label>
+            </>
+          )}
+          {numberField(t('catalog.rollWidth', { unit: lengthUnit() }), 'roll_width_cm')}
+          {numberField(t('catalog.rollLength', { unit: lengthUnit() }), 'roll_length_cm')}
+          {numberField(t('catalog.masterWidth', { unit: lengthUnit() }), 'master_width_cm')}
+          {numberField(t('catalog.masterHeight', { unit: lengthUnit() }), 'master_height_cm')}
+          <button
+            disabled={!draft.sku.trim() || !isCurrencyCode(draft.price.currency)}
+            onClick={() => run(async () => { await onAddCurrent(draft); setDraft(null); }, t('catalog.added'))}
+            className="col-span-2 btn-fromental"
+          >
+            {t('catalog.saveDesign')}
+          </button>
+        </div>
+      )}
+
+      {designs.length === 0 ? (
+        <p className="text-[10px] uppercase tracking-widest text-slate-300">{t('catalog.empty')}</p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 max-h-72 overflow-y-auto">
+          {designs.map(design => (
+            <div
+              key={design.id}
+              onClick={() => onSelect(design)}
+              className={`group relative border cursor-pointer transition-colors ${design.id === selectedId ? 'border-[#8c734b]' : 'border-slate-100 hover:border-slate-300'}`}
+            >
+              <img src={toDataUrl(design.image)} className="w-full h-20 object-cover" alt={design.name} draggable="false" />
+              <div className="p-2 space-y-1">
+                <div className="text-[11px] text-[#1a1a1a] truncate">{design.name}</div>
+                <div className="text-[9px] uppercase tracking-widest text-slate-400 truncate">{design.sku} · {formatLength(design.roll_width_cm)} · {formatPrice(design)}</div>
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); run(() => onDelete(design.id), t('catalog.removed')); }}
+                className="absolute top-1 right-1 p-1 bg-white/90 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                aria-label={t('common.remove', { name: design.name })}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {status && <p className="label-secondary normal-case tracking-widest text-[#8c734b]">{status}</p>}
+    </div>
+  );
+};
+
+export default DesignCatalog;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Star, Trash2 } from 'lucide-react';
+import { t } from '../services/i18nService';
+
+export interface ComparisonEntry {
+  id: string;
+  name: string;
+  render: string | null; // For the photo on screen; null while still rendering
+  rolls: number | null;
+}
+
+interface DesignComparisonProps {
+  current: ComparisonEntry;
+  variants: ComparisonEntry[];
+  onPromote: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * Grid of the same walls rendered in each queued design with its own roll count; the promoted one goes in the report.
+ */
+const DesignComparison: React.FC<DesignComparisonProps> = ({ current, variants, onPromote, onRemove }) => {
+  const renderCard = (entry: ComparisonEntry, isCurrent: boolean) => (
+    <div key={entry.id} className={`border bg-white ${isCurrent ? 'border-[#8c734b]' : 'border-slate-100'}`}>
+      <div className="aspect-[4/3] bg-[#fbfbfb] flex items-center justify-center overflow-hidden">
+        {entry.render
+          ? <img src={entry.render} className="w-full h-full object-contain" alt={entry.name} />
+          : <span className="text-[9px] uppercase tracking-widest text-slate-300">{t('compare.rendering')}</span>}
+      </div>
+      <div className="p-4 space-y-3">
+        <div className="flex justify-between items-baseline gap-2">
+          <span className="text-sm text-[#1a1a1a] truncate">{entry.name}</span>
+          <span className="label-secondary shrink-0">{t('compare.rolls', { rolls: entry.rolls ?? '–' })}</span>
+        </div>
+        {isCurrent ? (
+          <div className="text-[9px] uppercase tracking-widest font-bold text-[#8c734b] flex items-center gap-2"><Star className="w-3 h-3" /> {t('compare.inReport')}</div>
+        ) : (
+          <div className="flex gap-2">
+            <button onClick={() => onPromote(entry.id)} className="btn-outline flex-1 flex items-center justify-center gap-2">
+              <Star className="w-3 h-3" /> {t('compare.promote')}
+            </button>
+            <button onClick={() => onRemove(entry.id)} className="p-2 text-slate-300 hover:text-red-500 transition-colors" aria-label={t('common.remove', { name: entry.name })}>
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <label className="label-spaced block">{t('compare.title')}</label>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-6">
+        {renderCard(current, true)}
+        {variants.map(v => renderCard(v, false))}
+      </div>
+    </div>
+  );
+};
+
+export default DesignComparison;
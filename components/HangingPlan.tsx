@@ -0,0 +1,81 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { ImageUpload, PlannedStrip, StripPlan } from '../types';
+import { toDataUrl } from '../services/imageService';
+import { MessageKey, t } from '../services/i18nService';
+import { formatLength } from '../services/unitService';
+
+interface HangingPlanProps {
+  roomImage: ImageUpload;
+  plan: StripPlan;
+}
+
+const centroid = (strip: PlannedStrip) => [
+  strip.points.reduce((sum, p) => sum + p[0], 0) / strip.points.length,
+  strip.points.reduce((sum, p) => sum + p[1], 0) / strip.points.length
+];
+
+const kindLabel: Record<PlannedStrip['kind'], MessageKey> = {
+  full: 'plan.full',
+  partial: 'plan.partial',
+  skipped: 'plan.skipped'
+};
+
+const formatRange = (from: number, to: number) => `${formatLength(from)}–${formatLength(to)}`;
+
+/**
+ * Numbered hanging plan: where each strip of the panorama goes on the photographed walls.
+ * Placement of the panorama itself is set in PanoramaPlacement.
+ */
+const HangingPlan: React.FC<HangingPlanProps> = ({ roomImage, plan }) => {
+  return (
+    <div className="space-y-8">
+      <div className="flex items-baseline justify-between">
+        <label className="label-spaced flex items-center gap-2"><Layers className="w-4 h-4" /> {t('plan.title')}</label>
+        <span className="label-secondary">{t('plan.inSequence', { count: plan.hung_strips })}</span>
+      </div>
+
+      <div className="relative border border-slate-100">
+        <img src={toDataUrl(roomImage)} className="w-full h-auto block" alt={t('plan.alt')} draggable="false" />
+        <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+          {plan.strips.map((strip, i) => (
+            <polygon
+              key={i}
+              points={strip.points.map(p => p.join(',')).join(' ')}
+              fill={strip.kind === 'skipped' ? 'rgba(148, 163, 184, 0.3)' : (strip.number ?? 0) % 2 ? 'rgba(140, 115, 75, 0.35)' : 'rgba(140, 115, 75, 0.15)'}
+              stroke="#8c734b"
+              strokeWidth="1"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </svg>
+        {plan.strips.filter(strip => strip.number !== null).map((strip) => {
+          const [x, y] = centroid(strip);
+          return (
+            <div
+              key={strip.number}
+              className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none text-[10px] font-bold text-white bg-[#8c734b] px-1.5 py-0.5"
+              style={{ left: `${x}%`, top: `${y}%` }}
+            >
+              {strip.number}
+            </div>
+          );
+        })}
+      </div>
+
+      <ol className="divide-y divide-slate-50 border-t border-slate-100">
+        {plan.strips.map((strip, i) => (
+          <li key={i} className={`flex justify-between items-baseline py-3 text-[0.6rem] uppercase tracking-[0.2em] ${strip.kind === 'skipped' ? 'text-slate-300' : 'text-slate-400'}`}>
+            <span className="font-bold text-[#1a1a1a] w-20">{strip.number !== null ? t('plan.strip', { n: strip.number }) : '—'}</span>
+            <span>{t('common.wall', { n: strip.region_index + 1 })}</span>
+            <span>{formatRange(strip.wall_from_cm, strip.wall_to_cm)}</span>
+            <span>{t('plan.design', { range: `${formatRange(strip.design_from_cm, strip.design_to_cm)} × ${formatRange(strip.design_top_cm, strip.design_bottom_cm)}` })}</span>
+            <span className="w-36 text-right">{t(kindLabel[strip.kind])}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default HangingPlan;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { Move } from 'lucide-react';
+import { CropWindow, ImageUpload, PanoramaContinuity, StripPlan, StripPlanOptions, WallpaperMetadata } from '../types';
+import { toDataUrl } from '../services/imageService';
+import { printScale } from '../services/stripPlanService';
+import { t } from '../services/i18nService';
+import { formatLength } from '../services/unitService';
+
+interface PanoramaPlacementProps {
+  wallpaperImage: ImageUpload;
+  wallpaper: WallpaperMetadata;
+  options: StripPlanOptions;
+  plan: StripPlan | null; // Null until at least one wall has been measured
+  photoCount: number;
+  onOptionsChange: (options: StripPlanOptions) => void;
+}
+
+const MIN_SCALE_PERCENT = 50;
+const MAX_SCALE_PERCENT = 200;
+
+// A window running past the right edge continues from the left edge of the artwork
+function horizontalSegments(from: number, to: number): [number, number][] {
+  const segments: [number, number][] = [];
+  let start = from;
+  while (to - start > 0.01 && segments.length < 8) {
+    const offset = Math.floor(start / 100) * 100;
+    const end = Math.min(to, offset + 100);
+    segments.push([start - offset, end - offset]);
+    start = end;
+  }
+  return segments;
+}
+
+const windowLabel = (photoCount: number, w: CropWindow) =>
+  photoCount > 1 ? t('common.photoWall', { photo: (w.photo_index ?? 0) + 1, wall: w.region_index + 1 }) : t('common.wall', { n: w.region_index + 1 });
+
+/**
+ * Where the master artwork lands on the walls: offset, height and print scale of the panorama,
+ * with each wall's crop window marked on the design.
+ */
+const PanoramaPlacement: React.FC<PanoramaPlacementProps> = ({ wallpaperImage, wallpaper, options, plan, photoCount, onOptionsChange }) => {
+  const scale = printScale(options);
+  const printedWidth = wallpaper.master_width_cm * scale;
+  const printedHeight = wallpaper.master_height_cm * scale;
+  const windows = plan?.windows ?? [];
+  const overruns = windows.filter(w => w.y_to > 100.5);
+
+  return (
+    <div className="p-6 bg-white border border-slate-100 rounded-sm space-y-6">
+      <div className="flex items-baseline justify-between">
+        <label className="label-spaced flex items-center gap-2"><Move className="w-4 h-4" /> {t('placement.title')}</label>
+        <span className="label-secondary">{t('placement.printed', { width: formatLength(printedWidth), height: formatLength(printedHeight) })}</span>
+      </div>
+
+      <div className="relative border border-slate-100 overflow-hidden">
+        <img src={toDataUrl(wallpaperImage)} className="w-full h-auto block" alt={t('placement.alt')} draggable="false" />
+        {windows.flatMap((w, i) => horizontalSegments(w.x_from, w.x_to).map(([from, to], part) => (
+          <div
+            key={`${i}-${part}`}
+            className={`absolute pointer-events-none border-2 ${w.y_to > 100.5 ? 'border-red-500 bg-red-500/10' : 'border-[#8c734b] bg-[#8c734b]/15'}`}
+            style={{ left: `${from}%`, width: `${to - from}%`, top: `${Math.min(100, w.y_from)}%`, height: `${Math.max(0, Math.min(100, w.y_to) - w.y_from)}%` }}
+          >
+            {part === 0 && (
+              <span className="absolute top-0 left-0 text-[9px] font-bold uppercase tracking-widest text-white bg-[#8c734b] px-1.5 py-0.5 whitespace-nowrap">
+                {windowLabel(photoCount, w)}
+              </span>
+            )}
+          </div>
+        )))}
+      </div>
+      {!plan && <p className="text-[10px] uppercase tracking-widest text-slate-300">{t('placement.measureHint')}</p>}
+      {overruns.length > 0 && (
+        <p className="text-[11px] leading-relaxed text-red-600">
+          {t('placement.overrun', { walls: overruns.map(w => windowLabel(photoCount, w)).join(', ') })}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <label className="label-secondary block text-[9px]">{t('plan.startOffset', { length: formatLength(options.start_offset_cm) })}</label>
+          <input
+            type="range"
+            min={0}
+            max={Math.max(0, Math.round(printedWidth))}
+            step={1}
+            value={options.start_offset_cm}
+            onChange={(e) => onOptionsChange({ ...options, start_offset_cm: Number(e.target.value) })}
+            className="w-full accent-[#8c734b]"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="label-secondary block text-[9px]">{t('placement.vertical', { length: formatLength(options.vertical_offset_cm) })}</label>
+          <input
+            type="range"
+            min={0}
+            max={Math.max(0, Math.round(printedHeight))}
+            step={1}
+            value={options.vertical_offset_cm}
+            onChange={(e) => onOptionsChange({ ...options, vertical_offset_cm: Number(e.target.value) })}
+            className="w-full accent-[#8c734b]"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="label-secondary block text-[9px]">{t('placement.scale', { percent: Math.round(scale * 100) })}</label>
+          <input
+            type="range"
+            min={MIN_SCALE_PERCENT}
+            max={MAX_SCALE_PERCENT}
+            step={5}
+            value={Math.round(scale * 100)}
+            onChange={(e) => onOptionsChange({ ...options, scale: Number(e.target.value) / 100 })}
+            className="w-full accent-[#8c734b]"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="label-secondary block text-[9px]">{t('plan.acrossCorners')}</label>
+          <select
+            className="w-full border-b border-slate-200 py-1 text-sm bg-transparent outline-none focus:border-[#8c734b]"
+            value={options.continuity}
+            onChange={(e) => onOptionsChange({ ...options, continuity: e.target.value as PanoramaContinuity })}
+          >
+            <option value="continuous">{t('plan.continuous')}</option>
+            <option value="restart">{t('plan.restart')}</option>
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PanoramaPlacement;
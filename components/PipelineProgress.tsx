@@ -0,0 +1,51 @@
+import React from 'react';
+import { Check, RefreshCw, X } from 'lucide-react';
+import { Pipeline, PipelineStage } from '../types';
+import { MessageKey, t } from '../services/i18nService';
+import { PIPELINE_STAGES, formatElapsed, isRunning, stageElapsedMs } from '../services/pipelineService';
+
+interface PipelineProgressProps {
+  pipeline: Pipeline;
+  now: number; // Ticks while a stage runs so the elapsed time moves
+  onCancel: () => void;
+}
+
+const stageLabel: Record<PipelineStage['id'], MessageKey> = {
+  analysis: 'pipeline.analysis',
+  render: 'pipeline.render'
+};
+
+const statusLabel: Record<PipelineStage['status'], MessageKey> = {
+  idle: 'pipeline.status.idle',
+  running: 'pipeline.status.running',
+  done: 'pipeline.status.done',
+  failed: 'pipeline.status.failed',
+  cancelled: 'pipeline.status.cancelled'
+};
+
+/**
+ * Analysis and render stages with their progress and elapsed time, and a control to cancel the run.
+ */
+const PipelineProgress: React.FC<PipelineProgressProps> = ({ pipeline, now, onCancel }) => (
+  <div className="w-full max-w-sm space-y-3">
+    {PIPELINE_STAGES.map(id => {
+      const stage = pipeline[id];
+      return (
+        <div key={id} className={`flex items-center gap-3 text-[10px] uppercase tracking-widest ${stage.status === 'idle' ? 'text-slate-300' : stage.status === 'failed' ? 'text-red-500' : 'text-slate-500'}`}>
+          {stage.status === 'running' ? <RefreshCw className="w-3 h-3 animate-spin text-[#8c734b]" /> : stage.status === 'done' ? <Check className="w-3 h-3 text-[#8c734b]" /> : stage.status === 'idle' ? <span className="w-3" /> : <X className="w-3 h-3" />}
+          <span className="font-bold text-[#1a1a1a] flex-1">{t(stageLabel[id])}</span>
+          <span>{stage.total > 0 ? `${stage.completed}/${stage.total}` : ''}</span>
+          <span className="w-20 text-right">{stage.status === 'idle' ? t(statusLabel.idle) : formatElapsed(stageElapsedMs(stage, now))}</span>
+          <span className="w-20 text-right">{stage.status !== 'idle' && t(statusLabel[stage.status])}</span>
+        </div>
+      );
+    })}
+    {isRunning(pipeline) && (
+      <button onClick={onCancel} className="btn-outline w-full flex items-center justify-center gap-2">
+        <X className="w-3 h-3" /> {t('pipeline.cancel')}
+      </button>
+    )}
+  </div>
+);
+
+export default PipelineProgress;
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Download, FolderOpen, Save, Trash2, Upload, X } from 'lucide-react';
+import { ProjectSummary } from '../types';
+import { PROJECT_FILE_EXTENSION } from '../services/projectService';
+import { getLanguage, t } from '../services/i18nService';
+
+interface ProjectPanelProps {
+  projects: ProjectSummary[];
+  currentId: string | null;
+  name: string;
+  onNameChange: (name: string) => void;
+  onSave: () => Promise<void>;
+  onExport: () => void;
+  onImport: (file: File) => Promise<void>;
+  onOpen: (id: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onRefresh: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Local project list plus file import/export, shown as a drawer from the header.
+ */
+const ProjectPanel: React.FC<ProjectPanelProps> = ({
+  projects, currentId, name, onNameChange, onSave, onExport, onImport, onOpen, onDelete, onRefresh, onClose
+}) => {
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    onRefresh();
+  }, []);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      setStatus(success);
+    } catch (err) {
+      setStatus(err instanceof Error && err.message ? err.message : t('projects.failed'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/10" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-white border-l border-slate-100 p-10 space-y-10 overflow-y-auto animate-fade-in" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-baseline justify-between">
+          <label className="label-spaced flex items-center gap-2"><FolderOpen className="w-4 h-4" /> {t('app.projects')}</label>
+          <button onClick={onClose} className="text-slate-300 hover:text-[#1a1a1a] transition-colors" aria-label={t('projects.close')}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <section className="space-y-4">
+          <label className="label-secondary block">{t('projects.name')}</label>
+          <input
+            value={name}
+            onChange={(e) => onNameChange(e.target.value)}
+            placeholder={t('projects.namePlaceholder')}
+            className="w-full border-b border-slate-200 py-2 text-lg font-light outline-none focus:border-[#8c734b]"
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <button onClick={() => run(onSave, t('projects.saved'))} className="btn-outline flex items-center justify-center gap-2">
+              <Save className="w-3 h-3" /> {t('common.save')}
+            </button>
+            <button onClick={onExport} className="btn-outline flex items-center justify-center gap-2">
+              <Download className="w-3 h-3" /> {t('common.export')}
+            </button>
+            <label className="btn-outline flex items-center justify-center gap-2 cursor-pointer">
+              <Upload className="w-3 h-3" /> {t('common.import')}
+              <input
+                type="file"
+                className="hidden"
+                accept={`${PROJECT_FILE_EXTENSION},application/json`}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) run(() => onImport(file), t('projects.imported'));
+                }}
+              />
+            </label>
+          </div>
+          {status && <p className="label-secondary normal-case tracking-widest text-[#8c734b]">{status}</p>}
+        </section>
+
+        <section className="space-y-4">
+          <label className="label-secondary block">{t('projects.onDevice')}</label>
+          {projects.length === 0 ? (
+            <p className="text-[10px] uppercase tracking-widest text-slate-300">{t('projects.empty')}</p>
+          ) : (
+            <ul className="divide-y divide-slate-50 border-t border-slate-100">
+              {projects.map(project => (
+                <li key={project.id} className="flex items-center justify-between py-4 gap-4">
+                  <button onClick={() => run(() => onOpen(project.id), t('projects.opened'))} className="text-left flex-1 space-y-1">
+                    <div className={`text-sm ${project.id === currentId ? 'text-[#8c734b] font-semibold' : 'text-[#1a1a1a]'}`}>{project.name || t('projects.untitled')}</div>
+                    <div className="text-[9px] uppercase tracking-widest text-slate-400">
+                      {new Date(project.updated_at).toLocaleString(getLanguage())} · {t('projects.summary', { photos: project.photo_count, walls: project.wall_count })}{project.has_render ? t('projects.rendered') : ''}
+                    </div>
+                  </button>
+                  <button onClick={() => run(() => onDelete(project.id), t('projects.deleted'))} className="p-2 text-slate-300 hover:text-red-500 transition-colors" aria-label={t('projects.delete', { name: project.name })}>
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectPanel;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { AlertCircle, Receipt, SlidersHorizontal } from 'lucide-react';
+import { PricingSettings, Quote } from '../types';
+import { QUOTE_CURRENCIES, formatMoney } from '../services/pricingService';
+import { t } from '../services/i18nService';
+import { areaUnit, fromDisplayAreaPrice, toDisplayAreaPrice } from '../services/unitService';
+
+interface QuotePanelProps {
+  quote: Quote;
+  settings: PricingSettings;
+  onSettingsChange: (settings: PricingSettings) => void;
+}
+
+type NumericSetting = 'roll_price' | 'overage_percent' | 'adhesive_per_roll' | 'lining_per_sq_m' | 'labour_per_sq_m' | 'shipping' | 'tax_percent';
+
+const formatQuantity = (value: number) => Number.isInteger(value) ? String(value) : value.toFixed(2);
+
+/**
+ * Itemized client quote built from the room estimate, with the pricing inputs tucked behind a toggle.
+ */
+const QuotePanel: React.FC<QuotePanelProps> = ({ quote, settings, onSettingsChange }) => {
+  const [editing, setEditing] = useState(false);
+
+  // Per-area prices are entered per the active area unit and stored per m²
+  const numberField = (label: string, key: NumericSetting, perArea = false) => (
+    <label className="space-y-1">
+      <span className="label-secondary block text-[9px]">{label}</span>
+      <input
+        type="number"
+        min={0}
+        step="any"
+        value={perArea ? Number(toDisplayAreaPrice(settings[key]).toFixed(2)) : settings[key]}
+        onChange={(e) => onSettingsChange({ ...settings, [key]: perArea ? fromDisplayAreaPrice(Number(e.target.value)) : Number(e.target.value) })}
+        className="w-full border-b border-slate-200 py-1 text-sm outline-none focus:border-[#8c734b]" />
+    </label>
+  );
+
+  const currencySelect = (label: string, key: 'currency' | 'roll_price_currency' | 'extras_currency') => (
+    <label className="space-y-1">
+      <span className="label-secondary block text-[9px]">{label}</span>
+      <select value={settings[key]} onChange={(e) => onSettingsChange({ ...settings, [key]: e.target.value })} className="w-full border-b border-slate-200 py-1 text-sm bg-transparent outline-none focus:border-[#8c734b]">
+        {QUOTE_CURRENCIES.map(code => <option key={code} value={code}>{code}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="mt-8 p-6 bg-white border border-slate-100 rounded-sm space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <span className="label-spaced text-[#1a1a1a] flex items-center gap-2"><Receipt className="w-4 h-4" /> {t('quote.title')}</span>
+        <button onClick={() => setEditing(!editing)} className={`p-2 transition-colors flex items-center gap-2 ${editing ? 'text-[#8c734b]' : 'text-slate-300 hover:text-[#8c734b]'}`}>
+          <SlidersHorizontal className="w-4 h-4" />
+          <span className="label-secondary text-[10px]">{t('quote.pricing')}</span>
+        </button>
+      </div>
+
+      {editing && (
+        <div className="grid grid-cols-2 gap-4 pb-6 border-b border-slate-100">
+          {currencySelect(t('quote.currency'), 'currency')}
+          <label className="space-y-1">
+            <span className="label-secondary block text-[9px]">{t('quote.rate', { currency: settings.currency })}</span>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={settings.exchange_rates[settings.currency] ?? 1}
+              disabled={settings.currency === 'GBP'}
+              onChange={(e) => onSettingsChange({ ...settings, exchange_rates: { ...settings.exchange_rates, [settings.currency]: Number(e.target.value) } })}
+              className="w-full border-b border-slate-200 py-1 text-sm outline-none focus:border-[#8c734b] disabled:text-slate-300"
+            />
+          </label>
+          {numberField(t('quote.rollPrice'), 'roll_price')}
+          {currencySelect(t('quote.rollCurrency'), 'roll_price_currency')}
+          {numberField(t('quote.overage'), 'overage_percent')}
+          {currencySelect(t('quote.extrasCurrency'), 'extras_currency')}
+          {numberField(t('quote.adhesive'), 'adhesive_per_roll')}
+          {numberField(t('quote.lining', { unit: areaUnit() }), 'lining_per_sq_m', true)}
+          {numberField(t('quote.labour', { unit: areaUnit() }), 'labour_per_sq_m', true)}
+          {numberField(t('quote.shipping'), 'shipping')}
+          {numberField(t('quote.tax'), 'tax_percent')}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {quote.lines.map(line => (
+          <div key={line.label} className="flex justify-between items-baseline gap-4 border-b border-slate-50 pb-2 text-[0.6rem] uppercase tracking-[0.2em] text-slate-400">
+            <span className="font-bold text-[#1a1a1a]">{line.label}</span>
+            <span className="flex-1 text-right">{formatQuantity(line.quantity)} {line.unit} × {formatMoney(line.unit_price, quote.currency)}</span>
+            <span className="w-24 text-right font-bold text-[#8c734b]">{formatMoney(line.total, quote.currency)}</span>
+          </div>
+        ))}
+        {quote.roll_price_missing && <p className="text-[11px] leading-relaxed text-amber-700 flex items-center gap-2"><AlertCircle className="w-4 h-4 shrink-0" /> {t('quote.priceMissing')}</p>}
+        <div className="flex justify-between pt-2 text-[0.6rem] uppercase tracking-[0.2em] text-slate-400">
+          <span>{t('quote.subtotal')}</span>
+          <span>{formatMoney(quote.subtotal, quote.currency)}</span>
+        </div>
+        <div className="flex justify-between text-[0.6rem] uppercase tracking-[0.2em] text-slate-400">
+          <span>{t('quote.taxLine', { percent: quote.tax_percent })}</span>
+          <span>{formatMoney(quote.tax, quote.currency)}</span>
+        </div>
+        <div className="flex justify-between pt-2 text-[0.7rem] uppercase tracking-[0.2em] font-bold text-[#1a1a1a]">
+          <span>{t('quote.total')}</span>
+          <span>{formatMoney(quote.total, quote.currency)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuotePanel;
@@ -0,0 +1,51 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, CalibrationData, CropWindow, ImageSize, ImageUpload, StripPlanOptions, WallpaperMetadata } from '../types';
+import { toDataUrl } from '../services/imageService';
+import { renderWallpaperPreview } from '../services/previewService';
+
+interface WallpaperPreviewProps {
+  roomSize: ImageSize;
+  wallpaperImage: ImageUpload;
+  boxes: Box[];
+  calibration: CalibrationData | null;
+  wallpaper: WallpaperMetadata;
+  placement: StripPlanOptions;
+  windows?: CropWindow[];
+}
+
+// Preview canvases are capped so live redraws stay smooth on large phone photos
+const MAX_PREVIEW_EDGE_PX = 1600;
+
+/**
+ * Live canvas composite of the wallpaper in the marked regions, laid over the room photo.
+ */
+const WallpaperPreview: React.FC<WallpaperPreviewProps> = ({ roomSize, wallpaperImage, boxes, calibration, wallpaper, placement, windows }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [paper, setPaper] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setPaper(img);
+    img.src = toDataUrl(wallpaperImage);
+    return () => { img.onload = null; };
+  }, [wallpaperImage]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !paper) return;
+    // Coalesce bursts of pointer updates into one redraw per frame
+    const frame = requestAnimationFrame(() => {
+      const ratio = Math.min(1, MAX_PREVIEW_EDGE_PX / Math.max(roomSize.width, roomSize.height));
+      const canvasSize = { width: Math.round(roomSize.width * ratio), height: Math.round(roomSize.height * ratio) };
+      canvas.width = canvasSize.width;
+      canvas.height = canvasSize.height;
+      renderWallpaperPreview(ctx, { canvasSize, roomSize, paper, boxes, calibration, wallpaper, placement, windows });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [paper, boxes, calibration, wallpaper, placement, windows, roomSize]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none opacity-90" />;
+};
+
+export default WallpaperPreview;
@@ -0,0 +1,56 @@
+import { Box, CalibrationData, DetectedWall, ImageUpload, RenderSize, VisualizerState } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+export type AIProviderId = 'gemini' | 'mock';
+
+export interface AnalysisRequest {
+  roomImage: ImageUpload;
+  wallpaperImage: ImageUpload;
+  prompt: string;
+  boxes: Box[];
+  calibration: CalibrationData; // As requested by the user, before any model calibration
+  signal?: AbortSignal; // Cancels the call in flight
+}
+
+export interface DetectionRequest {
+  roomImage: ImageUpload;
+  prompt: string;
+}
+
+export interface RenderRequest {
+  roomImage: ImageUpload;
+  wallpaperImage: ImageUpload;
+  prompt: string;
+  metadata: VisualizerState;
+  aspectRatio: string; // One of the supported render ratios, matching the room image
+  size: RenderSize;
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend able to propose wall regions, measure marked ones and synthesize the render. Prompts are built by the
+ * visualizer service, so adapters only transport them and return the raw result.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  requiresApiKey: boolean;
+  detectWalls(request: DetectionRequest): Promise<DetectedWall[]>;
+  analyze(request: AnalysisRequest): Promise<VisualizerState>;
+  render(request: RenderRequest): Promise<string>;
+}
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider
+};
+
+/**
+ * The provider chosen through the AI_PROVIDER setting in .env.local; Gemini unless configured otherwise
+ * or set to an unknown name.
+ */
+export function getAIProvider(): AIProvider {
+  const configured = (process.env.AI_PROVIDER || 'gemini').toLowerCase();
+  return Object.hasOwn(PROVIDERS, configured) ? PROVIDERS[configured as AIProviderId] : PROVIDERS.gemini;
+}
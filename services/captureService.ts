@@ -0,0 +1,94 @@
+import { ImageUpload } from "../types";
+import { t } from "./i18nService";
+
+// Roll within this many degrees counts as level
+export const LEVEL_TOLERANCE_DEG = 1.5;
+
+const CAPTURE_MIME = 'image/jpeg';
+const CAPTURE_QUALITY = 0.92;
+
+export interface DeviceTilt {
+  roll_deg: number; // Rotation about the lens axis; positive when the right side dips
+  pitch_deg: number; // Positive when the camera points upward
+}
+
+/**
+ * Opens the rear camera at the highest resolution the device offers for stills.
+ */
+export async function openCamera(): Promise<MediaStream> {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error(t('error.cameraUnsupported'));
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      audio: false,
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 4096 }, height: { ideal: 4096 } }
+    });
+  } catch (err) {
+    const name = err instanceof DOMException ? err.name : undefined;
+    if (name === 'NotAllowedError' || name === 'SecurityError') {
+      throw new Error(t('error.cameraDenied'));
+    }
+    if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+      throw new Error(t('error.cameraMissing'));
+    }
+    throw new Error(t('error.cameraFailed'));
+  }
+}
+
+export function stopCamera(stream: MediaStream | null) {
+  stream?.getTracks().forEach(track => track.stop());
+}
+
+/**
+ * Grabs the current viewfinder frame at the stream's native resolution.
+ */
+export function captureFrame(video: HTMLVideoElement): ImageUpload {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx || !canvas.width || !canvas.height) throw new Error(t('error.cameraNoFrame'));
+  ctx.drawImage(video, 0, 0);
+  const dataUrl = canvas.toDataURL(CAPTURE_MIME, CAPTURE_QUALITY);
+  return { data: dataUrl.split(',')[1], mimeType: CAPTURE_MIME, width: canvas.width, height: canvas.height };
+}
+
+/**
+ * Roll and pitch of a phone held up to a wall, from the gravity vector rotated into screen coordinates.
+ */
+export function tiltFromGravity(gravity: { x: number | null; y: number | null; z: number | null }, screenAngle: number): DeviceTilt | null {
+  if (gravity.x === null || gravity.y === null || gravity.z === null) return null;
+  const rad = (screenAngle * Math.PI) / 180;
+  const x = gravity.x * Math.cos(rad) - gravity.y * Math.sin(rad);
+  const y = gravity.x * Math.sin(rad) + gravity.y * Math.cos(rad);
+  const toDeg = 180 / Math.PI;
+  // The camera faces away from the screen, so a screen tipping upward means the lens points down
+  return {
+    roll_deg: Math.atan2(-x, y) * toDeg,
+    pitch_deg: -Math.atan2(gravity.z, Math.hypot(x, y)) * toDeg
+  };
+}
+
+// Safari's static permission prompt, absent from the standard DeviceMotionEvent typings
+interface MotionPermissionRequest {
+  requestPermission?: () => Promise<PermissionState>;
+}
+
+const motionEventClass = (): MotionPermissionRequest | null =>
+  typeof DeviceMotionEvent !== 'undefined' ? DeviceMotionEvent as MotionPermissionRequest : null;
+
+/**
+ * iOS only delivers motion events after an explicit permission prompt from a user gesture.
+ */
+export const motionNeedsPermission = () => typeof motionEventClass()?.requestPermission === 'function';
+
+export async function requestMotionPermission(): Promise<boolean> {
+  const requestPermission = motionEventClass()?.requestPermission;
+  if (!requestPermission) return true;
+  try {
+    return (await requestPermission.call(DeviceMotionEvent)) === 'granted';
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,140 @@
+import { ImageUpload, MatchType, PatternType, WallpaperDesign, WallpaperMetadata } from "../types";
+import { downloadDataUrl } from "./exportService";
+import { t } from "./i18nService";
+import { SUPPORTED_IMAGE_TYPES } from "./imageService";
+import { isCurrencyCode } from "./pricingService";
+import { withStore } from "./storageService";
+import { isRecord } from "./validationService";
+
+export const CATALOG_VERSION = 1;
+
+const PATTERN_TYPES: PatternType[] = ['panoramic', 'repeating'];
+const MATCH_TYPES: MatchType[] = ['straight', 'half_drop', 'random'];
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const DEFAULT_CURRENCY = 'GBP';
+
+function parseCurrency(raw: string, label: string): string {
+  const currency = raw.trim().toUpperCase();
+  if (!isCurrencyCode(currency)) throw new Error(t('error.designInvalidCurrency', { label, currency: raw }));
+  return currency;
+}
+
+/**
+ * Accepts either an ImageUpload object or a data URL string for a design image. Formats the image
+ * pipeline cannot read are refused here rather than failing later at render time.
+ */
+function parseImage(raw: unknown, label: string): ImageUpload | null {
+  const match = typeof raw === 'string' ? raw.match(/^data:([^;]+);base64,(.+)$/) : null;
+  const image = isRecord(raw) && typeof raw.data === 'string' && typeof raw.mimeType === 'string'
+    ? { data: raw.data, mimeType: raw.mimeType }
+    : match ? { mimeType: match[1], data: match[2] } : null;
+  if (image && !SUPPORTED_IMAGE_TYPES.includes(image.mimeType)) {
+    throw new Error(t('error.designImageType', { label, type: image.mimeType }));
+  }
+  return image;
+}
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+function parseDesign(raw: unknown, index: number): WallpaperDesign {
+  const design: Record<string, unknown> = isRecord(raw) ? raw : {};
+  const label = text(design.sku) || text(design.name) || `#${index + 1}`;
+  const image = parseImage(design.image, label);
+  if (!image) throw new Error(t('error.designNoImage', { label }));
+  const sku = text(design.sku);
+  if (!sku) throw new Error(t('error.designNoSku', { label }));
+  const dimension = (field: string): number => {
+    const value = design[field];
+    if (!isPositive(value)) throw new Error(t('error.designInvalidField', { label, field }));
+    return value;
+  };
+  const price: Record<string, unknown> = isRecord(design.price) ? design.price : {};
+  return {
+    id: text(design.id) || sku,
+    sku,
+    name: text(design.name) || sku,
+    image,
+    pattern_type: PATTERN_TYPES.find(type => type === design.pattern_type) ?? 'panoramic',
+    pattern_repeat_cm: isPositive(design.pattern_repeat_cm) ? design.pattern_repeat_cm : undefined,
+    match_type: MATCH_TYPES.find(type => type === design.match_type),
+    roll_width_cm: dimension('roll_width_cm'),
+    roll_length_cm: dimension('roll_length_cm'),
+    master_width_cm: dimension('master_width_cm'),
+    master_height_cm: dimension('master_height_cm'),
+    price: {
+      amount: isPositive(price.amount) ? price.amount : 0,
+      currency: typeof price.currency === 'string' ? parseCurrency(price.currency, label) : DEFAULT_CURRENCY
+    }
+  };
+}
+
+/**
+ * Parses a catalog file: `{ "version": 1, "designs": [...] }`, or a bare array of designs.
+ */
+export function parseCatalog(json: string): WallpaperDesign[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error(t('error.catalogInvalid'));
+  }
+  const designs: unknown = Array.isArray(raw) ? raw : isRecord(raw) ? raw.designs : null;
+  if (!Array.isArray(designs)) throw new Error(t('error.catalogInvalid'));
+  if (isRecord(raw) && typeof raw.version === 'number' && raw.version > CATALOG_VERSION) {
+    throw new Error(t('error.catalogNewer', { version: raw.version }));
+  }
+  const entries: unknown[] = designs;
+  return entries.map(parseDesign);
+}
+
+/**
+ * The design's product data in the shape analysis and estimation work with.
+ */
+export function toWallpaperMetadata(design: WallpaperDesign): WallpaperMetadata {
+  return {
+    master_width_cm: design.master_width_cm,
+    master_height_cm: design.master_height_cm,
+    roll_width_cm: design.roll_width_cm,
+    roll_length_cm: design.roll_length_cm,
+    pattern_type: design.pattern_type,
+    pattern_repeat_cm: design.pattern_repeat_cm,
+    match_type: design.match_type
+  };
+}
+
+// Designs stored before currencies were checked may carry a code Intl cannot format
+export async function listDesigns(): Promise<WallpaperDesign[]> {
+  const all = await withStore<WallpaperDesign[]>('designs', 'readonly', store => store.getAll());
+  return all
+    .map(design => isCurrencyCode(design.price.currency) ? design : { ...design, price: { ...design.price, currency: DEFAULT_CURRENCY } })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveDesign(design: WallpaperDesign): Promise<void> {
+  const currency = parseCurrency(design.price.currency, design.sku);
+  await withStore('designs', 'readwrite', store => store.put({ ...design, price: { ...design.price, currency } }));
+}
+
+export async function deleteDesign(id: string): Promise<void> {
+  await withStore('designs', 'readwrite', store => store.delete(id));
+}
+
+/**
+ * Adds every design in the file to the local catalog, replacing designs with the same id. Returns how many were imported.
+ */
+export async function importCatalogFile(file: File): Promise<number> {
+  const designs = parseCatalog(await file.text());
+  for (const design of designs) {
+    await saveDesign(design);
+  }
+  return designs.length;
+}
+
+export function exportCatalogFile(designs: WallpaperDesign[]) {
+  const blob = new Blob([JSON.stringify({ version: CATALOG_VERSION, designs })], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  downloadDataUrl(url, `fromental-catalog-${new Date().toISOString().slice(0, 10)}.json`);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,129 @@
+import { MessageKey, t } from "./i18nService";
+
+export type VisualizerErrorKind = 'auth' | 'quota' | 'safety' | 'malformed' | 'no_image' | 'network' | 'cancelled' | 'unknown';
+
+/**
+ * Typed failure raised by the analysis and render pipeline so the UI can say what actually went wrong.
+ */
+export class VisualizerError extends Error {
+  kind: VisualizerErrorKind;
+  retryable: boolean;
+  details?: string;
+
+  constructor(kind: VisualizerErrorKind, message: string, details?: string) {
+    super(message);
+    this.name = 'VisualizerError';
+    this.kind = kind;
+    this.details = details;
+    this.retryable = kind === 'malformed' || kind === 'network' || kind === 'quota' || kind === 'no_image';
+  }
+}
+
+const ERROR_MESSAGES: Record<VisualizerErrorKind, MessageKey> = {
+  auth: 'error.auth',
+  quota: 'error.quota',
+  safety: 'error.safety',
+  malformed: 'error.malformed',
+  no_image: 'error.no_image',
+  network: 'error.network',
+  cancelled: 'error.cancelled',
+  unknown: 'error.unknown'
+};
+
+export const describeError = (error: VisualizerError) => t(ERROR_MESSAGES[error.kind]);
+
+// Server-side HTTP failures worth another attempt
+const NETWORK_STATUSES = [500, 502, 503, 504];
+
+// gRPC status names the Gemini API puts in its error bodies; case-sensitive so ordinary prose does not match
+const NETWORK_CODES = /\b(UNAVAILABLE|DEADLINE_EXCEEDED|INTERNAL)\b/;
+
+// What browsers throw from fetch when the request never reaches the server
+const FETCH_FAILURES = /^(Failed to fetch|NetworkError when attempting to fetch resource\.?|Load failed)$/;
+
+const hasField = <K extends string>(value: unknown, key: K): value is Record<K, unknown> =>
+  typeof value === 'object' && value !== null && key in value;
+
+// HTTP status or gRPC code carried by SDK errors
+function errorStatus(err: unknown): number | string | undefined {
+  for (const key of ['status', 'code'] as const) {
+    const value = hasField(err, key) ? err[key] : undefined;
+    if (typeof value === 'number' || typeof value === 'string') return value;
+  }
+  return undefined;
+}
+
+/**
+ * Maps SDK, HTTP and browser failures onto the error taxonomy. Already-typed errors pass through.
+ */
+export function classifyError(err: unknown): VisualizerError {
+  if (err instanceof VisualizerError) return err;
+  if (hasField(err, 'name') && err.name === 'AbortError') return new VisualizerError('cancelled', "The request was cancelled");
+  const message = err instanceof Error ? err.message : String(err ?? '');
+  const status = errorStatus(err);
+  const text = `${status ?? ''} ${message}`;
+
+  if (/Requested entity was not found|API key|API_KEY|PERMISSION_DENIED|UNAUTHENTICATED|\b40[13]\b/i.test(text)) {
+    return new VisualizerError('auth', message);
+  }
+  if (/RESOURCE_EXHAUSTED|quota|rate limit|\b429\b/i.test(text)) {
+    return new VisualizerError('quota', message);
+  }
+  if (/SAFETY|blocked|PROHIBITED_CONTENT/i.test(text)) {
+    return new VisualizerError('safety', message);
+  }
+  if (NETWORK_STATUSES.includes(Number(status)) || NETWORK_CODES.test(text) || (err instanceof TypeError && FETCH_FAILURES.test(message))) {
+    return new VisualizerError('network', message);
+  }
+  if (err instanceof SyntaxError) {
+    return new VisualizerError('malformed', "The model returned invalid JSON", message);
+  }
+  return new VisualizerError('unknown', message);
+}
+
+export interface RetryOptions {
+  attempts: number;
+  baseDelayMs: number;
+}
+
+export const DEFAULT_RETRY: RetryOptions = { attempts: 3, baseDelayMs: 800 };
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new VisualizerError('cancelled', "The request was cancelled");
+}
+
+/**
+ * Waits for the given time, or rejects as cancelled as soon as the signal fires.
+ */
+export const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new VisualizerError('cancelled', "The request was cancelled"));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new VisualizerError('cancelled', "The request was cancelled"));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs an operation with bounded exponential backoff, retrying only failures that may succeed on a second try.
+ * An aborted signal stops it between attempts and during the backoff.
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: RetryOptions = DEFAULT_RETRY, signal?: AbortSignal): Promise<T> {
+  let lastError: VisualizerError | null = null;
+  for (let attempt = 1; attempt <= options.attempts; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await operation();
+    } catch (err) {
+      lastError = signal?.aborted ? new VisualizerError('cancelled', "The request was cancelled") : classifyError(err);
+      if (!lastError.retryable || attempt === options.attempts) break;
+      const backoff = options.baseDelayMs * 2 ** (attempt - 1);
+      await delay(backoff + Math.random() * options.baseDelayMs * 0.25, signal);
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,199 @@
+import { RegionGeometry, WallpaperMetadata, RegionEstimate, RollEstimate, ExclusionGeometry, MatchType, HeightWarning, VisualizerState, StripPlanOptions } from "../types";
+
+export const DEFAULT_ROLL_WIDTH_CM = 70;
+export const DEFAULT_ROLL_LENGTH_CM = 300;
+
+// Used before analysis has read the design's real dimensions
+export const DEFAULT_WALLPAPER: WallpaperMetadata = {
+  master_width_cm: 500,
+  master_height_cm: 300,
+  roll_width_cm: DEFAULT_ROLL_WIDTH_CM,
+  roll_length_cm: DEFAULT_ROLL_LENGTH_CM
+};
+
+// Cut allowance per drop for squaring top and bottom on repeating papers
+export const TRIM_ALLOWANCE_CM = 10;
+
+// Openings within this distance of the region's top and bottom edges are treated as full height
+const FULL_HEIGHT_TOLERANCE_CM = 1;
+
+const toSqM = (widthCm: number, heightCm: number) => (widthCm * heightCm) / 10000;
+
+type StripKind = 'full' | 'partial' | 'skipped';
+
+/**
+ * Classifies each strip column of a region against its cut-outs: untouched strips hang as full drops,
+ * strips crossing an opening are cut around it, and strips wholly behind a full-height opening are skipped.
+ */
+export function classifyStrips(strips: number, rollWidth: number, height: number, exclusions: ExclusionGeometry[]): StripKind[] {
+  return Array.from({ length: strips }, (_, i) => {
+    const x0 = i * rollWidth;
+    const x1 = x0 + rollWidth;
+    const overlapping = exclusions.filter(e => e.offset_x_cm < x1 && e.offset_x_cm + e.width_cm > x0);
+    if (overlapping.length === 0) return 'full';
+    const coversColumn = overlapping.some(e =>
+      e.offset_x_cm <= x0 && e.offset_x_cm + e.width_cm >= x1 &&
+      e.offset_y_cm <= FULL_HEIGHT_TOLERANCE_CM && e.offset_y_cm + e.height_cm >= height - FULL_HEIGHT_TOLERANCE_CM
+    );
+    return coversColumn ? 'skipped' : 'partial';
+  });
+}
+
+/**
+ * Length to cut per drop so the pattern lines up with its neighbour. Straight matches round up to
+ * whole repeats; half-drop alternates by half a repeat, costing half a repeat per drop on average;
+ * random matches need no alignment.
+ */
+export function dropLengthCm(heightCm: number, repeatCm: number, match: MatchType): number {
+  const needed = heightCm + TRIM_ALLOWANCE_CM;
+  if (match === 'random' || !(repeatCm > 0)) return needed;
+  const aligned = Math.ceil(needed / repeatCm) * repeatCm;
+  return match === 'half_drop' ? aligned + repeatCm / 2 : aligned;
+}
+
+/**
+ * Computes the strip and roll requirement for a single measured region.
+ * Panoramic: each strip is one unique panel; a wall taller than the panel needs several drops per strip,
+ * counted from where the placement puts the top of the wall on the printed master.
+ * Repeating: drops are cut from stock rolls, so the count depends on wall height, repeat and match.
+ */
+export function estimateRegion(region: RegionGeometry, wallpaper: WallpaperMetadata, index: number, placement?: StripPlanOptions): RegionEstimate {
+  const rollWidth = wallpaper.roll_width_cm > 0 ? wallpaper.roll_width_cm : DEFAULT_ROLL_WIDTH_CM;
+  const rollLength = wallpaper.roll_length_cm > 0 ? wallpaper.roll_length_cm : DEFAULT_ROLL_LENGTH_CM;
+  const width = Math.max(0, region.width_cm || 0);
+  const height = Math.max(0, region.height_cm || 0);
+
+  const exclusions = region.exclusions || [];
+
+  const strips = width > 0 ? Math.ceil(width / rollWidth) : 0;
+  const kinds = classifyStrips(strips, rollWidth, height, exclusions);
+  const skipped = kinds.filter(k => k === 'skipped').length;
+  const hungStrips = strips - skipped;
+
+  let dropsPerStrip: number;
+  let dropLength: number | null = null;
+  let dropsPerRoll: number | null = null;
+  let rolls: number;
+  if (wallpaper.pattern_type === 'repeating') {
+    dropLength = height > 0 ? dropLengthCm(height, wallpaper.pattern_repeat_cm || 0, wallpaper.match_type || 'straight') : 0;
+    dropsPerRoll = dropLength > 0 ? Math.floor(rollLength / dropLength) : 0;
+    dropsPerStrip = hungStrips > 0 ? 1 : 0;
+    // A drop longer than the roll cannot be cut from stock; count it by length as the nearest approximation
+    rolls = dropsPerRoll > 0 ? Math.ceil(hungStrips / dropsPerRoll) : Math.ceil((hungStrips * dropLength) / rollLength);
+  } else {
+    // Panels are printed down the master from its top edge, so a wall starting partway down can straddle one more
+    const top = Math.max(0, placement?.vertical_offset_cm ?? 0);
+    dropsPerStrip = height > 0 ? Math.ceil((top + height) / rollLength) - Math.floor(top / rollLength) : 0;
+    rolls = hungStrips * dropsPerStrip;
+  }
+
+  const cutArea = exclusions.reduce((sum, e) => sum + e.area_sq_m, 0);
+  const wallArea = Math.max(0, toSqM(width, height) - cutArea);
+  const paperArea = toSqM(rolls * rollWidth, rollLength);
+  const waste = Math.max(0, paperArea - wallArea);
+
+  return {
+    region_index: index,
+    width_cm: width,
+    height_cm: height,
+    strips,
+    full_strips: kinds.filter(k => k === 'full').length,
+    partial_strips: kinds.filter(k => k === 'partial').length,
+    skipped_strips: skipped,
+    drops_per_strip: dropsPerStrip,
+    drop_length_cm: dropLength,
+    drops_per_roll: dropsPerRoll,
+    rolls,
+    wall_area_sq_m: wallArea,
+    paper_area_sq_m: paperArea,
+    waste_sq_m: waste,
+    waste_percent: paperArea > 0 ? (waste / paperArea) * 100 : 0
+  };
+}
+
+/**
+ * Deterministic roll estimate for all regions. The model only supplies measurements;
+ * every count shown to the client is derived here so the same boxes always give the same number.
+ */
+export function estimateRolls(regions: RegionGeometry[], wallpaper: WallpaperMetadata, modelTotal?: number, placement?: StripPlanOptions): RollEstimate {
+  const breakdown = regions.map((region, i) => estimateRegion(region, wallpaper, i, placement));
+  const totalRolls = breakdown.reduce((sum, r) => sum + r.rolls, 0);
+  const totalStrips = breakdown.reduce((sum, r) => sum + r.strips, 0);
+  const wallArea = breakdown.reduce((sum, r) => sum + r.wall_area_sq_m, 0);
+  const paperArea = breakdown.reduce((sum, r) => sum + r.paper_area_sq_m, 0);
+  const waste = breakdown.reduce((sum, r) => sum + r.waste_sq_m, 0);
+
+  return {
+    pattern_type: wallpaper.pattern_type || 'panoramic',
+    regions: breakdown,
+    total_strips: totalStrips,
+    total_rolls: totalRolls,
+    wall_area_sq_m: wallArea,
+    paper_area_sq_m: paperArea,
+    waste_sq_m: waste,
+    waste_percent: paperArea > 0 ? (waste / paperArea) * 100 : 0,
+    model_total_rolls: typeof modelTotal === 'number' ? modelTotal : null,
+    // The model is asked for ceil(width / roll width) per region, which is the local strip count before drops
+    // and skipped strips; it only reasons about panoramic strips, so it is no cross-check for repeating papers
+    model_disagrees: wallpaper.pattern_type !== 'repeating' && typeof modelTotal === 'number' && modelTotal !== totalStrips
+  };
+}
+
+/**
+ * Flags regions the paper cannot cover in one piece: panoramic walls crossing a panel join at the given placement and repeating
+ * drops longer than a roll. Each flag carries both remedies, stacking extra panels or a custom-length print.
+ */
+export function checkWallHeights(regions: RegionGeometry[], wallpaper: WallpaperMetadata, placement?: StripPlanOptions): HeightWarning[] {
+  const panelLength = wallpaper.roll_length_cm > 0 ? wallpaper.roll_length_cm : DEFAULT_ROLL_LENGTH_CM;
+
+  return regions.flatMap((region, i) => {
+    const estimate = estimateRegion(region, wallpaper, i, placement);
+    // Panoramic panels follow the vertical offset, so a wall starting partway down a panel can straddle a join;
+    // repeating drops carry repeat and trim instead
+    const panelsPerStrip = estimate.drop_length_cm === null
+      ? estimate.drops_per_strip
+      : Math.ceil(estimate.drop_length_cm / panelLength);
+    if (panelsPerStrip <= 1) return [];
+
+    const hungStrips = estimate.strips - estimate.skipped_strips;
+    return [{
+      region_index: i,
+      height_cm: estimate.height_cm,
+      panel_length_cm: panelLength,
+      panels_per_strip: panelsPerStrip,
+      extra_panels: hungStrips * (panelsPerStrip - 1),
+      custom_length_cm: Math.ceil(estimate.drop_length_cm ?? estimate.height_cm + TRIM_ALLOWANCE_CM)
+    }];
+  });
+}
+
+export interface RoomRegion {
+  photo_index: number;
+  region_index: number;
+  region: RegionGeometry;
+}
+
+/**
+ * Every analysed region across the room's photos, in photo order and then marking order.
+ */
+export function flattenRoomRegions(analyses: (Pick<VisualizerState, 'regions'> | null)[]): RoomRegion[] {
+  return analyses.flatMap((analysis, photoIndex) =>
+    (analysis?.regions || []).map((region, regionIndex) => ({ photo_index: photoIndex, region_index: regionIndex, region }))
+  );
+}
+
+/**
+ * Room-wide roll estimate over all photos, with each region tagged by the photo it was marked on.
+ */
+export function estimateRoom(analyses: (VisualizerState | null)[], wallpaper: WallpaperMetadata, placement?: StripPlanOptions): RollEstimate {
+  const entries = flattenRoomRegions(analyses);
+  const analysed = analyses.filter((a): a is VisualizerState => !!a);
+  const modelTotal = analysed.every(a => typeof a.total_rolls_estimated === 'number')
+    ? analysed.reduce((sum, a) => sum + a.total_rolls_estimated, 0)
+    : undefined;
+  const estimate = estimateRolls(entries.map(e => e.region), wallpaper, modelTotal, placement);
+  return {
+    ...estimate,
+    regions: estimate.regions.map((r, i) => ({ ...r, region_index: entries[i].region_index, photo_index: entries[i].photo_index }))
+  };
+}
@@ -0,0 +1,289 @@
+import { ImageUpload, Point, Quote, ReferenceType, RegionGeometry, RollEstimate, StripPlan, VisualizerState, WallpaperDesign, WallpaperMetadata } from "../types";
+import { loadImage, toDataUrl } from "./imageService";
+import { checkWallHeights } from "./estimationService";
+import { formatMoney } from "./pricingService";
+import { getLanguage, t } from "./i18nService";
+import { formatArea, formatLength, formatScale } from "./unitService";
+
+export interface ReportPhoto {
+  index: number; // Position among the room's photos
+  roomImage: ImageUpload;
+  renderedImage: string | null; // Data URL of the synthesized visualization
+  metadata: VisualizerState;
+}
+
+export interface ReportData {
+  photos: ReportPhoto[]; // Analysed photos only
+  wallpaper: WallpaperMetadata;
+  estimate: RollEstimate; // Room-wide
+  stripPlan?: StripPlan | null;
+  design?: WallpaperDesign | null;
+  quote?: Quote | null;
+}
+
+const dateStamp = () => new Date().toISOString().slice(0, 10);
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string));
+
+const extensionFor = (dataUrl: string) => {
+  const mime = dataUrl.slice(5, dataUrl.indexOf(';'));
+  return mime === 'image/jpeg' ? 'jpg' : mime.split('/')[1] || 'png';
+};
+
+/**
+ * Triggers a browser download for a data URL without re-encoding, so the render keeps its full resolution.
+ */
+export function downloadDataUrl(dataUrl: string, filename: string) {
+  const link = document.createElement('a');
+  link.href = dataUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+}
+
+export function downloadRender(renderedImage: string) {
+  downloadDataUrl(renderedImage, `fromental-visualization-${dateStamp()}.${extensionFor(renderedImage)}`);
+}
+
+/**
+ * Draws the marked regions, cut-outs and any detected reference object onto the original room photo at its native resolution.
+ */
+export async function renderRegionOverlay(roomImage: ImageUpload, regions: RegionGeometry[], referenceBox?: [Point, Point]): Promise<string> {
+  const img = await loadImage(toDataUrl(roomImage));
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(t('error.canvasUnavailable'));
+
+  const toPx = (p: [number, number]): [number, number] => [(p[0] / 100) * canvas.width, (p[1] / 100) * canvas.height];
+  const tracePath = (points: [number, number][]) => {
+    ctx.beginPath();
+    points.map(toPx).forEach(([x, y], i) => i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+    ctx.closePath();
+  };
+  const lineWidth = Math.max(2, canvas.width / 400);
+
+  ctx.drawImage(img, 0, 0);
+  regions.forEach((region, i) => {
+    tracePath(region.points);
+    ctx.fillStyle = 'rgba(59, 130, 246, 0.3)';
+    ctx.fill();
+    ctx.lineWidth = lineWidth;
+    ctx.strokeStyle = '#2563eb';
+    ctx.stroke();
+
+    (region.exclusions || []).forEach(exclusion => {
+      tracePath(exclusion.points);
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+      ctx.fill();
+      ctx.setLineDash([lineWidth * 3, lineWidth * 3]);
+      ctx.strokeStyle = '#ef4444';
+      ctx.stroke();
+      ctx.setLineDash([]);
+    });
+
+    const [x, y] = toPx(region.points[0]);
+    const size = Math.max(16, canvas.width / 50);
+    ctx.fillStyle = '#2563eb';
+    ctx.fillRect(x, y, size * 1.4, size * 1.4);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = `bold ${size}px Inter, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(String(i + 1), x + size * 0.7, y + size * 0.7);
+  });
+
+  if (referenceBox) {
+    const [[x1, y1], [x2, y2]] = referenceBox.map(toPx);
+    ctx.setLineDash([lineWidth * 3, lineWidth * 2]);
+    ctx.lineWidth = lineWidth;
+    ctx.strokeStyle = '#10b981';
+    ctx.strokeRect(x1, y1, x2 - x1, y2 - y1);
+    ctx.setLineDash([]);
+  }
+
+  return canvas.toDataURL('image/jpeg', 0.92);
+}
+
+const fmt = (value: number, digits = 0) => Number.isFinite(value) ? value.toFixed(digits) : '—';
+
+const length = (cm: number) => Number.isFinite(cm) ? formatLength(cm) : '—';
+
+const size = (widthCm: number, heightCm: number) => `${length(widthCm)} × ${length(heightCm)}`;
+
+/**
+ * Builds the self-contained client report in the active language and units. Everything is inlined so it prints or saves as PDF offline.
+ */
+export function buildReportHtml(data: ReportData, overlayImages: string[]): string {
+  const { photos, wallpaper, estimate, stripPlan, design, quote } = data;
+  const wallLabel = (photoIndex: number | undefined, regionIndex: number) =>
+    photos.length > 1 ? t('common.photoWall', { photo: (photoIndex ?? 0) + 1, wall: regionIndex + 1 }) : t('common.wall', { n: regionIndex + 1 });
+
+  const photoSections = photos.map((photo, i) => `<div class="section">
+    <h2>${photos.length > 1 ? `${t('common.photo', { n: photo.index + 1 })} · ` : ''}${escapeHtml(t('report.roomWalls'))}</h2>
+    <img src="${overlayImages[i]}" alt="${escapeHtml(t('report.roomAlt'))}">
+  </div>
+  ${photo.renderedImage ? `<div class="section"><h2>${t('report.visualization')}</h2><img src="${photo.renderedImage}" alt="${t('report.visualization')}"></div>` : ''}`).join('');
+
+  const calibrationRows = photos.map(({ index, metadata: { calibration } }) => `<tr>
+      ${photos.length > 1 ? `<td>${t('common.photo', { n: index + 1 })}</td>` : ''}
+      <td>${t(calibration.reference_type === ReferenceType.DOOR_FRAME ? 'results.detectedDoor' : 'results.detectedA4')}</td>
+      <td>${formatLength(calibration.real_world_cm, 1)}</td>
+      <td>${calibration.segment && calibration.pixels_per_cm
+        ? t('report.userLine', { scale: formatScale(calibration.pixels_per_cm) })
+        : `${t('report.detected')}${typeof calibration.confidence === 'number' ? t('report.confidence', { percent: fmt(calibration.confidence * 100) }) : ''}${calibration.reference_found === false ? t('report.notFound') : ''}`}</td>
+    </tr>`).join('');
+
+  const regionRows = photos.flatMap(photo => photo.metadata.regions.map((region, i) => {
+    const est = estimate.regions.find(r => (r.photo_index ?? 0) === photo.index && r.region_index === i);
+    return `<tr>
+      <td>${wallLabel(photo.index, i)}</td>
+      <td>${size(region.width_cm, region.height_cm)}</td>
+      <td>${formatArea(region.gross_area_sq_m ?? region.area_sq_m)}</td>
+      <td>${formatArea(region.area_sq_m)}</td>
+      <td>${(region.exclusions || []).map(e => escapeHtml(t(`exclusion.${e.type}`))).join(', ') || '—'}</td>
+      <td>${est ? (est.drop_length_cm !== null ? t('report.drops', { count: est.strips, length: length(est.drop_length_cm) }) : `${est.strips} × ${est.drops_per_strip}`) : '—'}</td>
+      <td class="num">${est ? est.rolls : '—'}</td>
+    </tr>`;
+  })).join('');
+
+  const heightWarnings = photos.flatMap(photo => checkWallHeights(photo.metadata.regions, wallpaper, stripPlan?.options).map(w =>
+    `<p class="meta warn">${t('report.tallWall', {
+      wall: wallLabel(photo.index, w.region_index),
+      height: length(w.height_cm),
+      length: length(w.panel_length_cm),
+      panels: w.panels_per_strip,
+      extra: w.extra_panels,
+      custom: length(w.custom_length_cm)
+    })}</p>`
+  )).join('');
+
+  const stripRows = (stripPlan?.strips || []).filter(s => s.number !== null).map(s => `<tr>
+      <td>${t('plan.strip', { n: s.number ?? '' })}</td>
+      <td>${wallLabel(s.photo_index, s.region_index)}</td>
+      <td>${length(s.wall_from_cm)}–${length(s.wall_to_cm)}</td>
+      <td>${length(s.design_from_cm)}–${length(s.design_to_cm)} × ${length(s.design_top_cm)}–${length(s.design_bottom_cm)}</td>
+      <td>${t(s.kind === 'partial' ? 'plan.partial' : 'plan.full')}</td>
+    </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="${getLanguage()}">
+<head>
+<meta charset="UTF-8">
+<title>FROMENTAL | ${t('report.title', { date: dateStamp() })}</title>
+<link href="https://fonts.googleapis.com/css2?family=Inter:wght@300;400;600&family=Cinzel:wght@400;500&display=swap" rel="stylesheet">
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { font-family: 'Inter', sans-serif; color: #1a1a1a; margin: 0; font-size: 11px; }
+  h1 { font-family: 'Cinzel', serif; letter-spacing: 0.3em; font-weight: 400; margin: 0 0 4px; }
+  h2 { font-size: 10px; letter-spacing: 0.25em; text-transform: uppercase; color: #8c734b; margin: 28px 0 10px; }
+  .meta { color: #94a3b8; text-transform: uppercase; letter-spacing: 0.2em; font-size: 9px; }
+  img { width: 100%; height: auto; display: block; border: 1px solid #eee; page-break-inside: avoid; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 4px; border-bottom: 1px solid #f1f5f9; }
+  th { font-size: 9px; letter-spacing: 0.15em; text-transform: uppercase; color: #94a3b8; font-weight: 600; }
+  .num { text-align: right; font-weight: 600; color: #8c734b; }
+  .total { display: flex; align-items: baseline; gap: 16px; margin-top: 12px; }
+  .total strong { font-size: 48px; font-weight: 300; }
+  .warn { color: #b45309; }
+  .section { page-break-inside: avoid; }
+</style>
+</head>
+<body>
+  <h1>FROMENTAL</h1>
+  <div class="meta">${t('report.subtitle', { date: dateStamp() })}</div>
+
+  ${photoSections}
+
+  ${design ? `<div class="section">
+    <h2>${t('report.design')}</h2>
+    <table>
+      <tr><th>${t('report.design')}</th><td>${escapeHtml(design.name)}</td></tr>
+      <tr><th>${t('report.sku')}</th><td>${escapeHtml(design.sku)}</td></tr>
+      <tr><th>${t('report.pattern')}</th><td>${t(design.pattern_type === 'repeating' ? 'common.repeating' : 'common.panoramic')}</td></tr>
+      <tr><th>${t('report.roll')}</th><td>${size(design.roll_width_cm, design.roll_length_cm)}</td></tr>
+      <tr><th>${t('report.master')}</th><td>${size(design.master_width_cm, design.master_height_cm)}</td></tr>
+    </table>
+  </div>` : ''}
+
+  <div class="section">
+    <h2>${t('report.calibration')}</h2>
+    <table>
+      <tr>${photos.length > 1 ? `<th>${t('report.photo')}</th>` : ''}<th>${t('report.reference')}</th><th>${t('report.referenceLength')}</th><th>${t('report.scale')}</th></tr>
+      ${calibrationRows}
+    </table>
+  </div>
+
+  <div class="section">
+    <h2>${t('report.dimensions')}</h2>
+    <table>
+      <tr><th>${t('report.region')}</th><th>${t('report.size')}</th><th>${t('report.gross')}</th><th>${t('report.net')}</th><th>${t('report.cutOuts')}</th><th>${t('report.stripsDrops')}</th><th class="num">${t('report.rolls')}</th></tr>
+      ${regionRows}
+    </table>
+  </div>
+
+  <div class="section">
+    <h2>${t('report.requirements')}</h2>
+    <div class="total"><strong>${estimate.total_rolls}</strong><span class="meta">${estimate.pattern_type === 'repeating'
+      ? t('report.rollsOf', {
+        size: size(wallpaper.roll_width_cm, wallpaper.roll_length_cm),
+        repeat: length(wallpaper.pattern_repeat_cm ?? 0),
+        match: t(`match.${wallpaper.match_type ?? 'straight'}`)
+      })
+      : t('report.uniquePanels', { width: length(wallpaper.roll_width_cm) })}</span></div>
+    <p class="meta">${t('report.areas', { area: formatArea(estimate.wall_area_sq_m), waste: formatArea(estimate.waste_sq_m), percent: fmt(estimate.waste_percent) })}</p>
+    ${heightWarnings}
+    ${estimate.model_disagrees ? `<p class="meta warn">${t('report.crossCheck', { strips: estimate.model_total_rolls ?? '—' })}</p>` : ''}
+  </div>
+
+  ${quote ? `<div class="section"><h2>${t('report.quotation')}</h2><table>
+    <tr><th>${t('report.item')}</th><th>${t('report.quantity')}</th><th>${t('report.unitPrice')}</th><th class="num">${t('quote.total')}</th></tr>
+    ${quote.lines.map(line => `<tr>
+      <td>${escapeHtml(line.label)}</td>
+      <td>${fmt(line.quantity, Number.isInteger(line.quantity) ? 0 : 2)} ${escapeHtml(line.unit)}</td>
+      <td>${formatMoney(line.unit_price, quote.currency)}</td>
+      <td class="num">${formatMoney(line.total, quote.currency)}</td>
+    </tr>`).join('')}
+    ${quote.roll_price_missing ? `<tr><td colspan="4" class="warn">${t('quote.priceMissing')}</td></tr>` : ''}
+    <tr><th colspan="3">${t('quote.subtotal')}</th><td class="num">${formatMoney(quote.subtotal, quote.currency)}</td></tr>
+    <tr><th colspan="3">${t('quote.taxLine', { percent: fmt(quote.tax_percent, 1) })}</th><td class="num">${formatMoney(quote.tax, quote.currency)}</td></tr>
+    <tr><th colspan="3">${t('quote.total')}</th><td class="num">${formatMoney(quote.total, quote.currency)}</td></tr>
+  </table></div>` : ''}
+
+  ${stripRows ? `<div class="section"><h2>${t('report.hangingPlan')}</h2>
+    ${stripPlan ? `<p class="meta">${t('report.placement', { percent: fmt(stripPlan.options.scale * 100), size: size(wallpaper.master_width_cm * stripPlan.options.scale, wallpaper.master_height_cm * stripPlan.options.scale), offset: length(stripPlan.options.start_offset_cm), drop: length(stripPlan.options.vertical_offset_cm) })}</p>` : ''}
+    <table>
+    <tr><th>${t('report.strip')}</th><th>${t('report.wall')}</th><th>${t('report.position')}</th><th>${t('report.designWindow')}</th><th>${t('report.drop')}</th></tr>
+    ${stripRows}
+  </table></div>` : ''}
+</body>
+</html>`;
+}
+
+/**
+ * Opens the report in a new window and invokes the print dialog, from which it can be saved as PDF.
+ * The window is opened before any async work so popup blockers treat it as user-initiated.
+ */
+export async function openPrintableReport(data: ReportData): Promise<void> {
+  const win = window.open('', '_blank');
+  let html: string;
+  try {
+    const overlays = await Promise.all(data.photos.map(photo => renderRegionOverlay(photo.roomImage, photo.metadata.regions, photo.metadata.calibration.reference_box)));
+    html = buildReportHtml(data, overlays);
+  } catch (err) {
+    win?.close();
+    throw err;
+  }
+
+  if (!win) {
+    downloadDataUrl(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`, `fromental-report-${dateStamp()}.html`);
+    return;
+  }
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.onload = () => win.print();
+}
@@ -0,0 +1,23 @@
+import { DetectedWall, Point, WallpaperMetadata } from "../../types";
+
+/**
+ * Canned answers for the offline provider. The photo is assumed to frame a fixed real-world span,
+ * so the same boxes always measure the same and the UI flow can be exercised without a model.
+ */
+export const MOCK_ANALYSIS_FIXTURE = {
+  frame_width_cm: 480, // Real-world width covered by the full photo
+  frame_height_cm: 300,
+  wallpaper: {
+    master_width_cm: 500,
+    master_height_cm: 300,
+    roll_width_cm: 70,
+    roll_length_cm: 300
+  } as WallpaperMetadata,
+  detected_walls: [
+    { label: 'Left wall', points: [[4, 12], [38, 16], [38, 78], [4, 86]] },
+    { label: 'Back wall', points: [[42, 16], [92, 16], [92, 78], [42, 78]] }
+  ] as DetectedWall[],
+  reference_box: [[46, 40], [53, 50]] as [Point, Point], // Where the A4 sheet is assumed to hang
+  reference_confidence: 0.92,
+  latency_ms: 400 // Simulated round-trip so loading states stay visible
+};
@@ -0,0 +1,225 @@
+import { Box, CalibrationData, Exclusion, ExclusionGeometry, ImageSize, Point, Quad, RegionGeometry } from "../types";
+import { applyHomography, orderQuad, pointInQuad, rectifyQuad, solveHomography } from "./homographyService";
+
+export const A4_LONG_EDGE_CM = 29.7;
+
+/**
+ * Converts a percentage-space point to natural image pixels.
+ */
+export function toPixels(point: Point, size: ImageSize): Point {
+  return [(point[0] / 100) * size.width, (point[1] / 100) * size.height];
+}
+
+/**
+ * Pixel length of a segment drawn in percentage space.
+ */
+export function segmentLengthPx(segment: [Point, Point], size: ImageSize): number {
+  const [ax, ay] = toPixels(segment[0], size);
+  const [bx, by] = toPixels(segment[1], size);
+  return Math.hypot(bx - ax, by - ay);
+}
+
+/**
+ * Derives the pixels-per-cm scale from the user-drawn reference edge.
+ * Returns null when the segment is degenerate or the real-world length is unusable.
+ */
+export function computePixelsPerCm(segment: [Point, Point], size: ImageSize, realWorldCm: number): number | null {
+  if (!(realWorldCm > 0) || size.width <= 0 || size.height <= 0) return null;
+  const lengthPx = segmentLengthPx(segment, size);
+  if (lengthPx < 1) return null;
+  return lengthPx / realWorldCm;
+}
+
+/**
+ * True when the calibration carries a locally derived scale that can measure boxes without the model.
+ */
+export function hasLocalScale(calibration: CalibrationData | null | undefined): calibration is CalibrationData & { pixels_per_cm: number; image_size: ImageSize } {
+  return !!calibration && !!calibration.image_size && typeof calibration.pixels_per_cm === 'number' && calibration.pixels_per_cm > 0;
+}
+
+/**
+ * Whether two boxes have the same outline, so an edit that leaves a region where it was can be ignored.
+ */
+export function sameOutline(a: Box, b: Box): boolean {
+  const pa = a.corners ?? boxCorners(a);
+  const pb = b.corners ?? boxCorners(b);
+  return pa.length === pb.length && pa.every((p, i) => p[0] === pb[i][0] && p[1] === pb[i][1]);
+}
+
+/**
+ * Corners of a box in clockwise order starting top-left, in percentage space.
+ */
+export function boxCorners(box: Box): Point[] {
+  const x1 = Math.min(box.start[0], box.end[0]);
+  const y1 = Math.min(box.start[1], box.end[1]);
+  const x2 = Math.max(box.start[0], box.end[0]);
+  const y2 = Math.max(box.start[1], box.end[1]);
+  return [[x1, y1], [x2, y1], [x2, y2], [x1, y2]];
+}
+
+/**
+ * The true outline of a region: the user's perspective quad when present, else the rectangle corners.
+ */
+export function regionCorners(box: Box): Point[] {
+  return box.corners ? [...box.corners] : boxCorners(box);
+}
+
+/**
+ * Builds a wall box from four user-placed corners, keeping start/end as the bounding box.
+ */
+export function boxFromCorners(points: Point[]): Box {
+  const corners = orderQuad(points);
+  const xs = corners.map(p => p[0]);
+  const ys = corners.map(p => p[1]);
+  return {
+    start: [Math.min(...xs), Math.min(...ys)],
+    end: [Math.max(...xs), Math.max(...ys)],
+    corners
+  };
+}
+
+/**
+ * Measures a perspective quad by rectifying it to the wall plane. When the reference edge lies on
+ * the same wall it is projected into the rectified plane for an exact scale; otherwise the image-space
+ * scale is applied to the rectified rectangle, which is sized to the quad's mean vertical edge.
+ */
+export function measureQuad(corners: Quad, calibration: CalibrationData & { pixels_per_cm: number; image_size: ImageSize }): RegionGeometry | null {
+  const { pixels_per_cm, image_size, segment } = calibration;
+  const quadPx = corners.map(p => toPixels(p, image_size)) as Quad;
+  const rectified = rectifyQuad(quadPx, image_size);
+  if (!rectified) return null;
+
+  let unitsPerCm = pixels_per_cm;
+  if (segment && segment.every(p => pointInQuad(p, corners))) {
+    const [a, b] = segment.map(p => applyHomography(rectified.toPlane, toPixels(p, image_size)));
+    const projected = Math.hypot(b[0] - a[0], b[1] - a[1]) / calibration.real_world_cm;
+    if (Number.isFinite(projected) && projected > 0) unitsPerCm = projected;
+  }
+
+  const width_cm = rectified.width / unitsPerCm;
+  const height_cm = rectified.height / unitsPerCm;
+  return {
+    points: [...corners],
+    width_cm,
+    height_cm,
+    area_sq_m: (width_cm * height_cm) / 10000
+  };
+}
+
+/**
+ * Measures a box in real-world cm using the local calibration scale.
+ */
+export function measureBox(box: Box, calibration: CalibrationData & { pixels_per_cm: number; image_size: ImageSize }): RegionGeometry {
+  const quadGeometry = box.corners ? measureQuad(box.corners, calibration) : null;
+  if (quadGeometry) return quadGeometry;
+
+  const { pixels_per_cm, image_size } = calibration;
+  const widthPx = (Math.abs(box.end[0] - box.start[0]) / 100) * image_size.width;
+  const heightPx = (Math.abs(box.end[1] - box.start[1]) / 100) * image_size.height;
+  const width_cm = widthPx / pixels_per_cm;
+  const height_cm = heightPx / pixels_per_cm;
+  return {
+    points: boxCorners(box),
+    width_cm,
+    height_cm,
+    area_sq_m: (width_cm * height_cm) / 10000
+  };
+}
+
+/**
+ * Index of the region that owns a point, preferring the most recently drawn one when regions overlap.
+ */
+export function findParentRegion(boxes: Box[], point: Point): number {
+  for (let i = boxes.length - 1; i >= 0; i--) {
+    if (pointInQuad(point, regionCorners(boxes[i]) as Quad)) return i;
+  }
+  return -1;
+}
+
+/**
+ * Maps image percentages into 0-1 fractions of a region's wall plane. Projective, so perspective
+ * quads need no calibration: the fractions hold whatever the wall's real dimensions turn out to be.
+ */
+function toPlaneFractions(box: Box): (p: Point) => Point {
+  if (box.corners) {
+    const h = solveHomography(box.corners, [[0, 0], [1, 0], [1, 1], [0, 1]]);
+    if (h) return p => applyHomography(h, p);
+  }
+  const [[x1, y1], , [x2, y2]] = boxCorners(box);
+  return p => [(p[0] - x1) / Math.max(1e-6, x2 - x1), (p[1] - y1) / Math.max(1e-6, y2 - y1)];
+}
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/**
+ * Measures cut-outs against their parent's real dimensions and nets them off the region area.
+ */
+export function applyExclusions(region: RegionGeometry, box: Box): RegionGeometry {
+  const exclusions = box.exclusions || [];
+  const grossArea = (region.width_cm * region.height_cm) / 10000;
+  if (exclusions.length === 0) {
+    return { ...region, area_sq_m: grossArea, gross_area_sq_m: grossArea, exclusions: [] };
+  }
+
+  const toPlane = toPlaneFractions(box);
+  const measured = exclusions.map((exclusion: Exclusion): ExclusionGeometry => {
+    const points = boxCorners(exclusion);
+    const plane = points.map(toPlane);
+    const fx1 = clamp01(Math.min(...plane.map(p => p[0])));
+    const fx2 = clamp01(Math.max(...plane.map(p => p[0])));
+    const fy1 = clamp01(Math.min(...plane.map(p => p[1])));
+    const fy2 = clamp01(Math.max(...plane.map(p => p[1])));
+    const width_cm = (fx2 - fx1) * region.width_cm;
+    const height_cm = (fy2 - fy1) * region.height_cm;
+    return {
+      type: exclusion.type,
+      points,
+      offset_x_cm: fx1 * region.width_cm,
+      offset_y_cm: fy1 * region.height_cm,
+      width_cm,
+      height_cm,
+      area_sq_m: (width_cm * height_cm) / 10000
+    };
+  });
+
+  const cutArea = measured.reduce((sum, e) => sum + e.area_sq_m, 0);
+  return {
+    ...region,
+    area_sq_m: Math.max(0, grossArea - cutArea),
+    gross_area_sq_m: grossArea,
+    exclusions: measured
+  };
+}
+
+const offsetPoint = (p: Point, dx: number, dy: number): Point => [p[0] + dx, p[1] + dy];
+
+/**
+ * Moves a region together with its cut-outs, clamped so it stays within the photo.
+ */
+export function translateBox(box: Box, dx: number, dy: number): Box {
+  const [[x1, y1], , [x2, y2]] = boxCorners(box);
+  const cdx = Math.max(-x1, Math.min(100 - x2, dx));
+  const cdy = Math.max(-y1, Math.min(100 - y2, dy));
+  return {
+    ...box,
+    start: offsetPoint(box.start, cdx, cdy),
+    end: offsetPoint(box.end, cdx, cdy),
+    corners: box.corners?.map(p => offsetPoint(p, cdx, cdy)) as Quad | undefined,
+    exclusions: box.exclusions?.map(ex => ({ ...ex, start: offsetPoint(ex.start, cdx, cdy), end: offsetPoint(ex.end, cdx, cdy) }))
+  };
+}
+
+/**
+ * Drags one corner of a region (clockwise from top-left). Rectangles keep the opposite corner fixed;
+ * perspective quads move only that corner and refresh their bounding box.
+ */
+export function moveBoxCorner(box: Box, cornerIndex: number, point: Point): Box {
+  if (box.corners) {
+    const corners = box.corners.map((p, i) => i === cornerIndex ? point : p) as Quad;
+    const xs = corners.map(p => p[0]);
+    const ys = corners.map(p => p[1]);
+    return { ...box, corners, start: [Math.min(...xs), Math.min(...ys)], end: [Math.max(...xs), Math.max(...ys)] };
+  }
+  const opposite = boxCorners(box)[(cornerIndex + 2) % 4];
+  return { ...box, start: opposite, end: point };
+}
@@ -0,0 +1,150 @@
+import { ImageSize, Point, Quad } from "../types";
+
+export type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+type Vec3 = [number, number, number];
+
+// Typical phone main camera (~26mm full-frame equivalent) expressed as a fraction of the long image edge
+const DEFAULT_FOCAL_RATIO = 26 / 36;
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0]
+];
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+/**
+ * Solves an n x n linear system with partial pivoting. Returns null when singular.
+ */
+function solveLinear(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const factor = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= factor * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+}
+
+/**
+ * Computes the homography mapping four source points onto four destination points.
+ */
+export function solveHomography(src: Quad, dst: Quad): Matrix3 | null {
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const [x, y] = src[i];
+    const [u, v] = dst[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  const h = solveLinear(a, b);
+  return h ? [h[0], h[1], h[2], h[3], h[4], h[5], h[6], h[7], 1] : null;
+}
+
+export function applyHomography(h: Matrix3, p: Point): Point {
+  const w = h[6] * p[0] + h[7] * p[1] + h[8];
+  return [(h[0] * p[0] + h[1] * p[1] + h[2]) / w, (h[3] * p[0] + h[4] * p[1] + h[5]) / w];
+}
+
+/**
+ * Orders four loose points clockwise starting from the top-left corner.
+ */
+export function orderQuad(points: Point[]): Quad {
+  const cx = points.reduce((s, p) => s + p[0], 0) / points.length;
+  const cy = points.reduce((s, p) => s + p[1], 0) / points.length;
+  const sorted = [...points].sort((a, b) => Math.atan2(a[1] - cy, a[0] - cx) - Math.atan2(b[1] - cy, b[0] - cx));
+  // Screen coordinates grow downwards, so ascending angle is already clockwise; rotate to start top-left
+  let start = 0;
+  sorted.forEach((p, i) => {
+    if (p[0] + p[1] < sorted[start][0] + sorted[start][1]) start = i;
+  });
+  return [0, 1, 2, 3].map(i => sorted[(start + i) % 4]) as Quad;
+}
+
+export function pointInQuad(p: Point, quad: Quad): boolean {
+  let inside = false;
+  for (let i = 0, j = 3; i < 4; j = i++) {
+    const [xi, yi] = quad[i];
+    const [xj, yj] = quad[j];
+    if ((yi > p[1]) !== (yj > p[1]) && p[0] < ((xj - xi) * (p[1] - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Recovers the true width/height ratio of a rectangle photographed in perspective
+ * (Zhang & He, "Whiteboard scanning and image enhancement"). The focal length is estimated
+ * from the quad's vanishing points and falls back to a typical phone lens when they are parallel.
+ * The quad must be clockwise from top-left and expressed in image pixels.
+ */
+export function rectifiedAspectRatio(quadPx: Quad, size: ImageSize): number {
+  const [tl, tr, br, bl] = quadPx;
+  const m1: Vec3 = [tl[0], tl[1], 1];
+  const m2: Vec3 = [tr[0], tr[1], 1];
+  const m3: Vec3 = [bl[0], bl[1], 1];
+  const m4: Vec3 = [br[0], br[1], 1];
+  const u0 = size.width / 2;
+  const v0 = size.height / 2;
+
+  const k2 = dot(cross(m1, m4), m3) / dot(cross(m2, m4), m3);
+  const k3 = dot(cross(m1, m4), m2) / dot(cross(m3, m4), m2);
+  const n2: Vec3 = [k2 * m2[0] - m1[0], k2 * m2[1] - m1[1], k2 * m2[2] - m1[2]];
+  const n3: Vec3 = [k3 * m3[0] - m1[0], k3 * m3[1] - m1[1], k3 * m3[2] - m1[2]];
+
+  let f = DEFAULT_FOCAL_RATIO * Math.max(size.width, size.height);
+  if (Math.abs(n2[2]) > 1e-9 && Math.abs(n3[2]) > 1e-9) {
+    const f2 = -(
+      (n2[0] * n3[0] - (n2[0] * n3[2] + n2[2] * n3[0]) * u0 + n2[2] * n3[2] * u0 * u0) +
+      (n2[1] * n3[1] - (n2[1] * n3[2] + n2[2] * n3[1]) * v0 + n2[2] * n3[2] * v0 * v0)
+    ) / (n2[2] * n3[2]);
+    if (Number.isFinite(f2) && f2 > 0) f = Math.sqrt(f2);
+  }
+
+  // |A^-1 n|^2 with A the intrinsic matrix [[f,0,u0],[0,f,v0],[0,0,1]]
+  const normSq = (n: Vec3) => {
+    const x = (n[0] - u0 * n[2]) / f;
+    const y = (n[1] - v0 * n[2]) / f;
+    return x * x + y * y + n[2] * n[2];
+  };
+  const ratio = Math.sqrt(normSq(n2) / normSq(n3));
+  if (Number.isFinite(ratio) && ratio > 0) return ratio;
+
+  // Degenerate input: fall back to the mean edge lengths as seen in the image
+  const top = Math.hypot(tr[0] - tl[0], tr[1] - tl[1]);
+  const bottom = Math.hypot(br[0] - bl[0], br[1] - bl[1]);
+  const left = Math.hypot(bl[0] - tl[0], bl[1] - tl[1]);
+  const right = Math.hypot(br[0] - tr[0], br[1] - tr[1]);
+  return (top + bottom) / Math.max(1e-6, left + right);
+}
+
+export interface RectifiedQuad {
+  width: number; // Rectified units, sized so height matches the mean vertical edge in pixels
+  height: number;
+  toPlane: Matrix3; // Image pixels -> fronto-parallel wall plane
+}
+
+/**
+ * Rectifies a wall quad to a fronto-parallel rectangle in image pixel units.
+ */
+export function rectifyQuad(quadPx: Quad, size: ImageSize): RectifiedQuad | null {
+  const [tl, tr, br, bl] = quadPx;
+  const height = (Math.hypot(bl[0] - tl[0], bl[1] - tl[1]) + Math.hypot(br[0] - tr[0], br[1] - tr[1])) / 2;
+  const width = height * rectifiedAspectRatio(quadPx, size);
+  const toPlane = solveHomography(quadPx, [[0, 0], [width, 0], [width, height], [0, height]]);
+  if (!toPlane || !(width > 0) || !(height > 0)) return null;
+  return { width, height, toPlane };
+}
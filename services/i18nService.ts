@@ -0,0 +1,671 @@
+import { Language } from "../types";
+
+export const LANGUAGES: { id: Language; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'fr', label: 'Français' }
+];
+
+const en = {
+  // Header, footer and shared words
+  'app.projects': "Projects",
+  'app.workspace': "Bespoke Workspace",
+  'app.language': "Language",
+  'app.units': "Units",
+  'app.units.metric': "Metric",
+  'app.units.imperial': "Imperial",
+  'app.status': "System State: {state}",
+  'app.status.analyzing': "Analyzing Spatial Context",
+  'app.status.generating': "Synthesizing Render",
+  'app.status.idle': "Visualizer Active",
+  'app.connectKey': "Please connect your Gemini API Key to proceed to the bespoke atelier visualizer.",
+  'app.connectStudio': "Connect AI Studio",
+  'common.photo': "Photo {n}",
+  'common.wall': "Wall {n}",
+  'common.photoWall': "Photo {photo} · Wall {wall}",
+  'common.remove': "Remove {name}",
+  'common.import': "Import",
+  'common.export': "Export",
+  'common.save': "Save",
+  'common.name': "Name",
+  'common.pattern': "Pattern",
+  'common.match': "Match",
+  'common.repeat': "Repeat {unit}",
+  'common.panoramic': "Panoramic",
+  'common.repeating': "Repeating",
+  'match.straight': "Straight",
+  'match.half_drop': "Half Drop",
+  'match.random': "Random",
+  'exclusion.Window': "Window",
+  'exclusion.Door': "Door",
+  'exclusion.Radiator': "Radiator",
+  'exclusion.Fixture': "Fixture",
+
+  // Setup: room photos and marking
+  'setup.roomTitle': "1. Room Perspective (Draw Blue Boxes)",
+  'setup.photoTab': "Photo {n} · {count}",
+  'setup.removePhoto': "Remove photo {n}",
+  'setup.addPhoto': "Add Wall Photo",
+  'setup.capture': "Capture",
+  'setup.uploadPhoto': "Upload Project Photo",
+  'setup.captureCamera': "Capture with Camera",
+  'setup.roomAlt': "Room View",
+  'setup.wallSelection': "Wall Area Selection",
+  'setup.wallSummary': "{boxes} boxes defined · {cutouts} cut-outs",
+  'setup.previewCalibrated': "Preview at calibrated scale",
+  'setup.previewUncalibrated': "Uncalibrated preview: draw a reference line for true strip size",
+  'setup.preview': "Preview",
+  'setup.detecting': "Detecting Walls",
+  'setup.suggestWalls': "Suggest Walls",
+  'setup.corner': "Corner {n} of 4",
+  'setup.perspectiveWall': "Perspective Wall",
+  'setup.cutOut': "Cut-Out",
+  'setup.clickSecondEnd': "Click Second End",
+  'setup.clickFirstEnd': "Click First End",
+  'setup.drawReference': "Draw Reference",
+  'setup.undoLast': "Undo Last",
+  'setup.suggestedWalls': "{count} suggested walls · review each on the photo",
+  'setup.acceptAll': "Accept All",
+  'setup.dismiss': "Dismiss",
+  'setup.accept': "Accept {name}",
+  'setup.edit': "Edit {name}",
+  'setup.reject': "Reject {name}",
+  'setup.wallChip': "Wall {n}",
+  'setup.perspective': " · Perspective",
+  'setup.deleteWall': "Delete wall {n}",
+
+  // Setup: wallpaper and comparison
+  'setup.wallpaperTitle': "2. Wallpaper Asset",
+  'setup.uploadWallpaper': "Upload Wallpaper Design",
+  'setup.wallpaperAlt': "Wallpaper Design",
+  'setup.uploadedPattern': "Uploaded Pattern",
+  'setup.compareDesigns': "Compare Designs",
+  'setup.addComparison': "+ Add to Comparison",
+  'setup.compareHint': "Queue this design, then pick another to render both on the same walls",
+
+  // Setup: calibration and synthesis
+  'setup.calibration': "Spatial Calibration",
+  'setup.refA4': "A4 Paper Standard ({length})",
+  'setup.refDoor': "Door Leaf Reference (Custom {unit})",
+  'setup.objectHeight': "Object Height in {unit}",
+  'setup.referenceSet': "Reference line set · {scale}",
+  'setup.referenceHint': "Draw the reference edge on the photo to measure walls locally",
+  'setup.checkReference': "Check the reference object",
+  'setup.photoPrefix': "Photo {n}: ",
+  'setup.referenceNotFound': "The reference object was not found, so walls cannot be measured. Draw the reference edge on the photo and synthesize again.",
+  'setup.referenceLowConfidence': "The reference was detected with only {percent}% confidence. Check the outlined object on the photo, or draw the reference edge for an exact scale.",
+  'setup.tallWalls': "Walls crossing a {length} panel join",
+  'setup.tallWall': "{wall} is {height} high: {panels} panels per strip ({extra} extra) or a custom {length} print.",
+  'setup.renderAnyway': "Render Anyway",
+  'setup.renderSize': "Render Size",
+  'setup.synthesize': "Synthesize Visualization",
+
+  // Results
+  'results.analyzing': "Analyzing Spatial Context...",
+  'results.synthesizing': "Performing Spatial Synthesis...",
+  'results.calculating': "Calculating panoramic sequence and lighting",
+  'results.showOutlines': "Show Region Outlines",
+  'results.hideOutlines': "Hide Region Outlines",
+  'results.newSimulation': "New Simulation",
+  'results.adjustSetup': "Adjust Setup",
+  'results.exportRender': "Export High-Res Render",
+  'results.report': "Project Report (PDF)",
+  'results.requirements': "Estimated Requirements",
+  'results.rollsOf': "Rolls of {size}",
+  'results.uniquePanels': "Unique {width} Panoramic Panels",
+  'results.stripBreakdown': "{full} full · {partial} cut around openings · {skipped} skipped",
+  'results.drops': "{count} drops of {length} · {perRoll} per roll",
+  'results.strips': "{count} strips × {drops}",
+  'results.cutSkip': " ({cut} cut, {skip} skip)",
+  'results.waste': "Waste",
+  'results.patternMatch': "Pattern Match",
+  'results.repeatMatch': "{repeat} repeat · {match}",
+  'results.reference': "reference {status}",
+  'results.referenceNotFound': "not found",
+  'results.referenceConfidence': "{percent}% confidence",
+  'results.detectedReference': "{object} · {scale}",
+  'results.detectedA4': "A4 sheet",
+  'results.detectedDoor': "Door leaf",
+  'results.tallWall': "{wall}: {panels} panels per strip or custom {length} print",
+  'results.modelDisagrees': "AI count of {strips} strips differs from the measured calculation",
+  'results.repeatingNote': "Based on the measured height, each drop is cut to whole pattern repeats so the design matches across every seam.",
+  'results.panoramicNote': "Based on the measured horizontal span and vertical height, this unique print sequence ensures a seamless panoramic fit across all identified segments.",
+
+  // Synthesis pipeline
+  'pipeline.analysis': "Spatial Analysis",
+  'pipeline.render': "Render",
+  'pipeline.status.idle': "Waiting",
+  'pipeline.status.running': "Running",
+  'pipeline.status.done': "Done",
+  'pipeline.status.failed': "Failed",
+  'pipeline.status.cancelled': "Cancelled",
+  'pipeline.cancel': "Cancel",
+  'setup.renderCount': "Renders per Photo",
+  'results.regenerate': "Regenerate Render",
+  'results.renderOptions': "Render Options",
+  'results.renderOption': "Option {n}",
+
+  // Before/after and comparison
+  'compare.before': "Before",
+  'compare.after': "After",
+  'compare.originalAlt': "Original room",
+  'compare.renderAlt': "Visualization Synthesis",
+  'compare.title': "Design Comparison",
+  'compare.rendering': "Rendering…",
+  'compare.rolls': "{rolls} rolls",
+  'compare.inReport': "In Report",
+  'compare.promote': "Promote",
+
+  // Hanging plan
+  'plan.title': "Hanging Plan",
+  'plan.inSequence': "{count} strips in sequence",
+  'plan.startOffset': "Start Offset into Master · {length}",
+  'plan.acrossCorners': "Across Corners",
+  'plan.continuous': "Panorama continues onto next wall",
+  'plan.restart': "Restart panorama on each wall",
+  'plan.alt': "Hanging Plan",
+  'plan.strip': "Strip {n}",
+  'plan.design': "Design {range}",
+  'plan.full': "Full drop",
+  'plan.partial': "Cut around opening",
+  'plan.skipped': "Not hung",
+  'placement.title': "Panorama Placement",
+  'placement.printed': "Printed {width} × {height}",
+  'placement.alt': "Master artwork with each wall's crop",
+  'placement.vertical': "Top of Walls below Top of Design · {length}",
+  'placement.scale': "Print Scale · {percent}%",
+  'placement.measureHint': "Draw a reference line on a photo, or synthesize, to see where each wall falls on the design",
+  'placement.overrun': "The design ends above the floor on {walls}; raise it or print it larger.",
+
+  // Design catalog
+  'catalog.title': "Design Catalog",
+  'catalog.addUpload': "Add Upload",
+  'catalog.sku': "SKU",
+  'catalog.pricePerRoll': "Price per Roll",
+  'catalog.rollWidth': "Roll Width {unit}",
+  'catalog.rollLength': "Roll Length {unit}",
+  'catalog.masterWidth': "Master Width {unit}",
+  'catalog.masterHeight': "Master Height {unit}",
+  'catalog.saveDesign': "Save Design",
+  'catalog.empty': "No catalog designs yet — import a catalog or add the uploaded design",
+  'catalog.imported': "Catalog imported.",
+  'catalog.added': "Design added to catalog.",
+  'catalog.removed': "Design removed.",
+  'catalog.failed': "The catalog could not be updated.",
+
+  // Projects
+  'projects.name': "Project Name",
+  'projects.namePlaceholder': "Client · Room",
+  'projects.saved': "Project saved on this device.",
+  'projects.imported': "Project imported.",
+  'projects.opened': "Project opened.",
+  'projects.deleted': "Project deleted.",
+  'projects.failed': "Something went wrong with the project store.",
+  'projects.onDevice': "Saved on this Device",
+  'projects.empty': "No saved projects yet",
+  'projects.untitled': "Untitled Project",
+  'projects.summary': "{photos} photos · {walls} walls",
+  'projects.rendered': " · rendered",
+  'projects.close': "Close projects",
+  'projects.delete': "Delete {name}",
+
+  // Quote
+  'quote.title': "Quotation",
+  'quote.pricing': "Pricing",
+  'quote.currency': "Quote Currency",
+  'quote.rate': "{currency} per GBP",
+  'quote.rollPrice': "Price per Roll",
+  'quote.rollCurrency': "Roll Price Currency",
+  'quote.extrasCurrency': "Fitting & Delivery Currency",
+  'quote.overage': "Overage %",
+  'quote.adhesive': "Adhesive per Roll",
+  'quote.lining': "Lining per {unit}",
+  'quote.labour': "Installation per {unit}",
+  'quote.shipping': "Shipping",
+  'quote.tax': "Tax %",
+  'quote.priceMissing': "No roll price set: the wallpaper is listed at no charge and the total leaves it out",
+  'quote.subtotal': "Subtotal",
+  'quote.taxLine': "Tax {percent}%",
+  'quote.total': "Total",
+  'quote.line.wallpaper': "Wallpaper",
+  'quote.line.wallpaperOverage': "Wallpaper (incl. {percent}% overage)",
+  'quote.line.adhesive': "Adhesive",
+  'quote.line.lining': "Lining paper",
+  'quote.line.installation': "Installation",
+  'quote.line.shipping': "Shipping",
+  'quote.unit.roll': "roll",
+  'quote.unit.order': "order",
+
+  // Camera
+  'camera.title': "Capture Wall",
+  'camera.close': "Close camera",
+  'camera.hintA4': "Keep the A4 sheet flat on the wall and fully inside the frame",
+  'camera.hintDoor': "Keep the whole door leaf, top to bottom, inside the frame",
+  'camera.capturedAlt': "Captured wall",
+  'camera.level': "Level",
+  'camera.tilted': "Tilted {degrees}°",
+  'camera.up': "Up",
+  'camera.down': "Down",
+  'camera.retake': "Retake",
+  'camera.usePhoto': "Use Photo",
+  'camera.enableLevel': "Enable Level",
+  'camera.takePhoto': "Take photo",
+
+  // Errors shown to the user
+  'error.auth': "The AI Studio key was rejected. Please reconnect your Gemini API key and try again.",
+  'error.quota': "The Gemini quota or rate limit has been reached. Please wait a minute before synthesizing again.",
+  'error.safety': "The request was blocked by the model's safety filters. Try a different room photo or wallpaper image.",
+  'error.malformed': "The spatial analysis came back incomplete. Please re-check markers and spatial calibration, then try again.",
+  'error.no_image': "The model did not return a render. Please try synthesizing again.",
+  'error.network': "The AI service could not be reached. Please check your connection and try again.",
+  'error.cancelled': "Synthesis was cancelled.",
+  'error.unknown': "Atelier synthesis failed. Please re-check markers and spatial calibration.",
+  'error.cutOutOutside': "Cut-outs must be drawn inside a marked wall area.",
+  'error.noWallsFound': "No further wall areas were found. Please mark the walls by hand.",
+  'error.nothingToRender': "Please draw at least one area box and upload a pattern before beginning.",
+  'error.reportFailed': "The project report could not be prepared. Please try again.",
+  'error.canvasUnavailable': "This browser could not prepare the image for export.",
+  'error.imageUnreadable': "The file could not be read.",
+  'error.imageType': "{type} is not supported. Please use a JPEG, PNG or WebP image.",
+  'error.imageTypeUnknown': "This file type",
+  'error.imageDecode': "The image could not be decoded. It may be damaged or in an unsupported format.",
+  'error.imageProcess': "The image could not be processed.",
+  'error.cameraUnsupported': "This browser does not offer camera access. Upload a photo instead.",
+  'error.cameraDenied': "Camera permission was declined. Allow camera access or upload a photo instead.",
+  'error.cameraMissing': "No camera was found on this device.",
+  'error.cameraFailed': "The camera could not be started.",
+  'error.cameraNoFrame': "The camera has not delivered a frame yet.",
+  'error.projectMissing': "This project is no longer stored on this device.",
+  'error.projectInvalid': "The selected file is not a valid project file.",
+  'error.projectNewer': "This project was saved by a newer version of the visualizer (format {version}).",
+  'error.catalogInvalid': "The selected file is not a valid catalog file.",
+  'error.catalogNewer': "This catalog was exported by a newer version of the visualizer (format {version}).",
+  'error.designNoImage': "Design {label} has no embedded image.",
+  'error.designImageType': "Design {label} has an unsupported image type ({type}); use JPEG, PNG or WebP.",
+  'error.designNoSku': "Design {label} is missing a SKU.",
+  'error.designInvalidField': "Design {label} has an invalid {field}.",
+  'error.designInvalidCurrency': "Design {label} has an unknown currency \"{currency}\". Use a three-letter code such as GBP, EUR or USD.",
+
+  // Printable report
+  'report.title': "Project Report {date}",
+  'report.subtitle': "Bespoke Wallpaper Project Report · {date}",
+  'report.roomWalls': "Room & Marked Walls",
+  'report.roomAlt': "Room with marked walls",
+  'report.visualization': "Visualization",
+  'report.design': "Design",
+  'report.sku': "SKU",
+  'report.pattern': "Pattern",
+  'report.roll': "Roll",
+  'report.master': "Master Panorama",
+  'report.calibration': "Calibration",
+  'report.photo': "Photo",
+  'report.reference': "Reference",
+  'report.referenceLength': "Reference Length",
+  'report.scale': "Scale",
+  'report.userLine': "{scale} (user-drawn reference line)",
+  'report.detected': "Detected by AI analysis",
+  'report.confidence': " · {percent}% confidence",
+  'report.notFound': " · reference not found",
+  'report.dimensions': "Wall Dimensions",
+  'report.region': "Region",
+  'report.size': "Size",
+  'report.gross': "Gross",
+  'report.net': "Net",
+  'report.cutOuts': "Cut-outs",
+  'report.stripsDrops': "Strips × Drops",
+  'report.rolls': "Rolls",
+  'report.drops': "{count} drops of {length}",
+  'report.requirements': "Estimated Requirements",
+  'report.rollsOf': "Rolls of {size} · {repeat} repeat, {match} match",
+  'report.uniquePanels': "Unique {width} panoramic panels",
+  'report.areas': "Net wall area {area} · Waste {waste} ({percent}%)",
+  'report.tallWall': "{wall} is {height} high and crosses a {length} panel join: {panels} panels per strip ({extra} extra) or a custom {custom} print",
+  'report.crossCheck': "AI cross-check counted {strips} strips",
+  'report.quotation': "Quotation",
+  'report.item': "Item",
+  'report.quantity': "Quantity",
+  'report.unitPrice': "Unit Price",
+  'report.hangingPlan': "Hanging Plan",
+  'report.strip': "Strip",
+  'report.wall': "Wall",
+  'report.position': "Position",
+  'report.designWindow': "Design Window",
+  'report.placement': "Master printed at {percent}% ({size}), starting {offset} across and {drop} down the design.",
+  'report.drop': "Drop"
+};
+
+export type MessageKey = keyof typeof en;
+
+const fr: Record<MessageKey, string> = {
+  'app.projects': "Projets",
+  'app.workspace': "Atelier sur mesure",
+  'app.language': "Langue",
+  'app.units': "Unités",
+  'app.units.metric': "Métrique",
+  'app.units.imperial': "Impérial",
+  'app.status': "État du système : {state}",
+  'app.status.analyzing': "Analyse de l'espace",
+  'app.status.generating': "Synthèse du rendu",
+  'app.status.idle': "Visualiseur actif",
+  'app.connectKey': "Veuillez connecter votre clé API Gemini pour accéder au visualiseur de l'atelier.",
+  'app.connectStudio': "Connecter AI Studio",
+  'common.photo': "Photo {n}",
+  'common.wall': "Mur {n}",
+  'common.photoWall': "Photo {photo} · Mur {wall}",
+  'common.remove': "Retirer {name}",
+  'common.import': "Importer",
+  'common.export': "Exporter",
+  'common.save': "Enregistrer",
+  'common.name': "Nom",
+  'common.pattern': "Motif",
+  'common.match': "Raccord",
+  'common.repeat': "Rapport {unit}",
+  'common.panoramic': "Panoramique",
+  'common.repeating': "À rapport",
+  'match.straight': "Droit",
+  'match.half_drop': "Sauté",
+  'match.random': "Libre",
+  'exclusion.Window': "Fenêtre",
+  'exclusion.Door': "Porte",
+  'exclusion.Radiator': "Radiateur",
+  'exclusion.Fixture': "Équipement",
+
+  'setup.roomTitle': "1. Perspective de la pièce (tracer les zones bleues)",
+  'setup.photoTab': "Photo {n} · {count}",
+  'setup.removePhoto': "Retirer la photo {n}",
+  'setup.addPhoto': "Ajouter une photo de mur",
+  'setup.capture': "Prendre",
+  'setup.uploadPhoto': "Importer la photo du projet",
+  'setup.captureCamera': "Prendre avec l'appareil",
+  'setup.roomAlt': "Vue de la pièce",
+  'setup.wallSelection': "Sélection des murs",
+  'setup.wallSummary': "{boxes} zones définies · {cutouts} découpes",
+  'setup.previewCalibrated': "Aperçu à l'échelle calibrée",
+  'setup.previewUncalibrated': "Aperçu non calibré : tracez une ligne de référence pour la taille réelle des lés",
+  'setup.preview': "Aperçu",
+  'setup.detecting': "Détection des murs",
+  'setup.suggestWalls': "Suggérer les murs",
+  'setup.corner': "Coin {n} sur 4",
+  'setup.perspectiveWall': "Mur en perspective",
+  'setup.cutOut': "Découpe",
+  'setup.clickSecondEnd': "Cliquer la seconde extrémité",
+  'setup.clickFirstEnd': "Cliquer la première extrémité",
+  'setup.drawReference': "Tracer la référence",
+  'setup.undoLast': "Annuler",
+  'setup.suggestedWalls': "{count} murs suggérés · vérifiez chacun sur la photo",
+  'setup.acceptAll': "Tout accepter",
+  'setup.dismiss': "Ignorer",
+  'setup.accept': "Accepter {name}",
+  'setup.edit': "Modifier {name}",
+  'setup.reject': "Rejeter {name}",
+  'setup.wallChip': "Mur {n}",
+  'setup.perspective': " · Perspective",
+  'setup.deleteWall': "Supprimer le mur {n}",
+
+  'setup.wallpaperTitle': "2. Papier peint",
+  'setup.uploadWallpaper': "Importer le dessin du papier peint",
+  'setup.wallpaperAlt': "Dessin du papier peint",
+  'setup.uploadedPattern': "Motif importé",
+  'setup.compareDesigns': "Comparer des dessins",
+  'setup.addComparison': "+ Ajouter à la comparaison",
+  'setup.compareHint': "Mettez ce dessin en attente, puis choisissez-en un autre pour les rendre sur les mêmes murs",
+
+  'setup.calibration': "Calibrage spatial",
+  'setup.refA4': "Feuille A4 standard ({length})",
+  'setup.refDoor': "Référence vantail de porte ({unit} sur mesure)",
+  'setup.objectHeight': "Hauteur de l'objet en {unit}",
+  'setup.referenceSet': "Ligne de référence définie · {scale}",
+  'setup.referenceHint': "Tracez l'arête de référence sur la photo pour mesurer les murs localement",
+  'setup.checkReference': "Vérifiez l'objet de référence",
+  'setup.photoPrefix': "Photo {n} : ",
+  'setup.referenceNotFound': "L'objet de référence est introuvable, les murs ne peuvent pas être mesurés. Tracez l'arête de référence sur la photo et relancez la synthèse.",
+  'setup.referenceLowConfidence': "La référence n'a été détectée qu'avec {percent} % de confiance. Vérifiez l'objet encadré sur la photo, ou tracez l'arête de référence pour une échelle exacte.",
+  'setup.tallWalls': "Murs traversant une jonction de panneaux de {length}",
+  'setup.tallWall': "{wall} mesure {height} de haut : {panels} panneaux par lé ({extra} en plus) ou une impression sur mesure de {length}.",
+  'setup.renderAnyway': "Rendre quand même",
+  'setup.renderSize': "Taille du rendu",
+  'setup.synthesize': "Lancer la visualisation",
+
+  'results.analyzing': "Analyse de l'espace...",
+  'results.synthesizing': "Synthèse spatiale en cours...",
+  'results.calculating': "Calcul de la séquence panoramique et de l'éclairage",
+  'results.showOutlines': "Afficher les contours",
+  'results.hideOutlines': "Masquer les contours",
+  'results.newSimulation': "Nouvelle simulation",
+  'results.adjustSetup': "Ajuster la configuration",
+  'results.exportRender': "Exporter le rendu haute définition",
+  'results.report': "Rapport de projet (PDF)",
+  'results.requirements': "Besoins estimés",
+  'results.rollsOf': "Rouleaux de {size}",
+  'results.uniquePanels': "Panneaux panoramiques uniques de {width}",
+  'results.stripBreakdown': "{full} entiers · {partial} découpés autour des ouvertures · {skipped} non posés",
+  'results.drops': "{count} lés de {length} · {perRoll} par rouleau",
+  'results.strips': "{count} lés × {drops}",
+  'results.cutSkip': " ({cut} découpés, {skip} non posés)",
+  'results.waste': "Chutes",
+  'results.patternMatch': "Raccord du motif",
+  'results.repeatMatch': "Rapport de {repeat} · {match}",
+  'results.reference': "référence {status}",
+  'results.referenceNotFound': "introuvable",
+  'results.referenceConfidence': "{percent} % de confiance",
+  'results.detectedReference': "{object} · {scale}",
+  'results.detectedA4': "Feuille A4",
+  'results.detectedDoor': "Vantail de porte",
+  'results.tallWall': "{wall} : {panels} panneaux par lé ou impression sur mesure de {length}",
+  'results.modelDisagrees': "Le décompte de l'IA ({strips} lés) diffère du calcul mesuré",
+  'results.repeatingNote': "D'après la hauteur mesurée, chaque lé est coupé sur des rapports entiers afin que le motif se raccorde à chaque jointure.",
+  'results.panoramicNote': "D'après la largeur et la hauteur mesurées, cette séquence d'impression unique assure une pose panoramique continue sur tous les segments identifiés.",
+
+  'pipeline.analysis': "Analyse spatiale",
+  'pipeline.render': "Rendu",
+  'pipeline.status.idle': "En attente",
+  'pipeline.status.running': "En cours",
+  'pipeline.status.done': "Terminé",
+  'pipeline.status.failed': "Échec",
+  'pipeline.status.cancelled': "Annulé",
+  'pipeline.cancel': "Annuler",
+  'setup.renderCount': "Rendus par photo",
+  'results.regenerate': "Régénérer le rendu",
+  'results.renderOptions': "Variantes de rendu",
+  'results.renderOption': "Variante {n}",
+
+  'compare.before': "Avant",
+  'compare.after': "Après",
+  'compare.originalAlt': "Pièce d'origine",
+  'compare.renderAlt': "Visualisation",
+  'compare.title': "Comparaison des dessins",
+  'compare.rendering': "Rendu en cours…",
+  'compare.rolls': "{rolls} rouleaux",
+  'compare.inReport': "Dans le rapport",
+  'compare.promote': "Retenir",
+
+  'plan.title': "Plan de pose",
+  'plan.inSequence': "{count} lés dans l'ordre",
+  'plan.startOffset': "Décalage dans le panoramique · {length}",
+  'plan.acrossCorners': "Aux angles",
+  'plan.continuous': "Le panoramique continue sur le mur suivant",
+  'plan.restart': "Recommencer le panoramique sur chaque mur",
+  'plan.alt': "Plan de pose",
+  'plan.strip': "Lé {n}",
+  'plan.design': "Dessin {range}",
+  'plan.full': "Lé entier",
+  'plan.partial': "Découpé autour d'une ouverture",
+  'plan.skipped': "Non posé",
+  'placement.title': "Placement du panoramique",
+  'placement.printed': "Imprimé {width} × {height}",
+  'placement.alt': "Dessin complet avec le cadrage de chaque mur",
+  'placement.vertical': "Haut des murs sous le haut du dessin · {length}",
+  'placement.scale': "Échelle d'impression · {percent} %",
+  'placement.measureHint': "Tracez une ligne de référence sur une photo, ou lancez la synthèse, pour voir où chaque mur tombe sur le dessin",
+  'placement.overrun': "Le dessin s'arrête au-dessus du sol sur {walls} ; remontez-le ou imprimez-le plus grand.",
+
+  'catalog.title': "Catalogue des dessins",
+  'catalog.addUpload': "Ajouter l'import",
+  'catalog.sku': "Référence",
+  'catalog.pricePerRoll': "Prix par rouleau",
+  'catalog.rollWidth': "Largeur du rouleau {unit}",
+  'catalog.rollLength': "Longueur du rouleau {unit}",
+  'catalog.masterWidth': "Largeur du panoramique {unit}",
+  'catalog.masterHeight': "Hauteur du panoramique {unit}",
+  'catalog.saveDesign': "Enregistrer le dessin",
+  'catalog.empty': "Aucun dessin au catalogue — importez un catalogue ou ajoutez le dessin importé",
+  'catalog.imported': "Catalogue importé.",
+  'catalog.added': "Dessin ajouté au catalogue.",
+  'catalog.removed': "Dessin retiré.",
+  'catalog.failed': "Le catalogue n'a pas pu être mis à jour.",
+
+  'projects.name': "Nom du projet",
+  'projects.namePlaceholder': "Client · Pièce",
+  'projects.saved': "Projet enregistré sur cet appareil.",
+  'projects.imported': "Projet importé.",
+  'projects.opened': "Projet ouvert.",
+  'projects.deleted': "Projet supprimé.",
+  'projects.failed': "Un problème est survenu avec l'espace de stockage des projets.",
+  'projects.onDevice': "Enregistrés sur cet appareil",
+  'projects.empty': "Aucun projet enregistré",
+  'projects.untitled': "Projet sans titre",
+  'projects.summary': "{photos} photos · {walls} murs",
+  'projects.rendered': " · rendu",
+  'projects.close': "Fermer les projets",
+  'projects.delete': "Supprimer {name}",
+
+  'quote.title': "Devis",
+  'quote.pricing': "Tarifs",
+  'quote.currency': "Devise du devis",
+  'quote.rate': "{currency} pour 1 GBP",
+  'quote.rollPrice': "Prix par rouleau",
+  'quote.rollCurrency': "Devise du prix du rouleau",
+  'quote.extrasCurrency': "Devise de la pose et de la livraison",
+  'quote.overage': "Marge %",
+  'quote.adhesive': "Colle par rouleau",
+  'quote.lining': "Papier d'apprêt par {unit}",
+  'quote.labour': "Pose par {unit}",
+  'quote.shipping': "Livraison",
+  'quote.tax': "TVA %",
+  'quote.priceMissing': "Aucun prix par rouleau : le papier peint figure sans prix et le total ne l'inclut pas",
+  'quote.subtotal': "Sous-total",
+  'quote.taxLine': "TVA {percent} %",
+  'quote.total': "Total",
+  'quote.line.wallpaper': "Papier peint",
+  'quote.line.wallpaperOverage': "Papier peint (dont {percent} % de marge)",
+  'quote.line.adhesive': "Colle",
+  'quote.line.lining': "Papier d'apprêt",
+  'quote.line.installation': "Pose",
+  'quote.line.shipping': "Livraison",
+  'quote.unit.roll': "rouleau",
+  'quote.unit.order': "commande",
+
+  'camera.title': "Photographier le mur",
+  'camera.close': "Fermer l'appareil photo",
+  'camera.hintA4': "Gardez la feuille A4 à plat sur le mur et entièrement dans le cadre",
+  'camera.hintDoor': "Gardez tout le vantail de la porte, de haut en bas, dans le cadre",
+  'camera.capturedAlt': "Mur photographié",
+  'camera.level': "De niveau",
+  'camera.tilted': "Incliné de {degrees}°",
+  'camera.up': "Haut",
+  'camera.down': "Bas",
+  'camera.retake': "Reprendre",
+  'camera.usePhoto': "Utiliser la photo",
+  'camera.enableLevel': "Activer le niveau",
+  'camera.takePhoto': "Prendre la photo",
+
+  'error.auth': "La clé AI Studio a été refusée. Reconnectez votre clé API Gemini et réessayez.",
+  'error.quota': "Le quota ou la limite de débit Gemini est atteint. Patientez une minute avant de relancer la synthèse.",
+  'error.safety': "La requête a été bloquée par les filtres de sécurité du modèle. Essayez une autre photo de pièce ou un autre papier peint.",
+  'error.malformed': "L'analyse spatiale est revenue incomplète. Vérifiez les repères et le calibrage, puis réessayez.",
+  'error.no_image': "Le modèle n'a renvoyé aucun rendu. Veuillez relancer la synthèse.",
+  'error.network': "Le service d'IA est injoignable. Vérifiez votre connexion et réessayez.",
+  'error.cancelled': "La synthèse a été annulée.",
+  'error.unknown': "La synthèse a échoué. Vérifiez les repères et le calibrage spatial.",
+  'error.cutOutOutside': "Les découpes doivent être tracées à l'intérieur d'un mur délimité.",
+  'error.noWallsFound': "Aucun autre mur n'a été trouvé. Veuillez délimiter les murs à la main.",
+  'error.nothingToRender': "Tracez au moins une zone et importez un motif avant de commencer.",
+  'error.reportFailed': "Le rapport de projet n'a pas pu être préparé. Veuillez réessayer.",
+  'error.canvasUnavailable': "Ce navigateur n'a pas pu préparer l'image pour l'export.",
+  'error.imageUnreadable': "Le fichier n'a pas pu être lu.",
+  'error.imageType': "{type} n'est pas pris en charge. Utilisez une image JPEG, PNG ou WebP.",
+  'error.imageTypeUnknown': "Ce type de fichier",
+  'error.imageDecode': "L'image n'a pas pu être décodée. Elle est peut-être endommagée ou dans un format non pris en charge.",
+  'error.imageProcess': "L'image n'a pas pu être traitée.",
+  'error.cameraUnsupported': "Ce navigateur ne donne pas accès à l'appareil photo. Importez plutôt une photo.",
+  'error.cameraDenied': "L'accès à l'appareil photo a été refusé. Autorisez-le ou importez plutôt une photo.",
+  'error.cameraMissing': "Aucun appareil photo n'a été trouvé sur cet appareil.",
+  'error.cameraFailed': "L'appareil photo n'a pas pu démarrer.",
+  'error.cameraNoFrame': "L'appareil photo n'a pas encore fourni d'image.",
+  'error.projectMissing': "Ce projet n'est plus enregistré sur cet appareil.",
+  'error.projectInvalid': "Le fichier sélectionné n'est pas un fichier de projet valide.",
+  'error.projectNewer': "Ce projet a été enregistré par une version plus récente du visualiseur (format {version}).",
+  'error.catalogInvalid': "Le fichier sélectionné n'est pas un fichier de catalogue valide.",
+  'error.catalogNewer': "Ce catalogue a été exporté par une version plus récente du visualiseur (format {version}).",
+  'error.designNoImage': "Le dessin {label} n'a pas d'image intégrée.",
+  'error.designImageType': "Le dessin {label} a un type d'image non pris en charge ({type}) ; utilisez JPEG, PNG ou WebP.",
+  'error.designNoSku': "Le dessin {label} n'a pas de référence.",
+  'error.designInvalidField': "Le dessin {label} a une valeur {field} invalide.",
+  'error.designInvalidCurrency': "Le dessin {label} a une devise inconnue « {currency} ». Utilisez un code à trois lettres comme EUR, GBP ou USD.",
+
+  'report.title': "Rapport de projet {date}",
+  'report.subtitle': "Rapport de projet papier peint sur mesure · {date}",
+  'report.roomWalls': "Pièce et murs délimités",
+  'report.roomAlt': "Pièce avec les murs délimités",
+  'report.visualization': "Visualisation",
+  'report.design': "Dessin",
+  'report.sku': "Référence",
+  'report.pattern': "Motif",
+  'report.roll': "Rouleau",
+  'report.master': "Panoramique complet",
+  'report.calibration': "Calibrage",
+  'report.photo': "Photo",
+  'report.reference': "Référence",
+  'report.referenceLength': "Longueur de référence",
+  'report.scale': "Échelle",
+  'report.userLine': "{scale} (ligne de référence tracée)",
+  'report.detected': "Détectée par l'analyse IA",
+  'report.confidence': " · {percent} % de confiance",
+  'report.notFound': " · référence introuvable",
+  'report.dimensions': "Dimensions des murs",
+  'report.region': "Zone",
+  'report.size': "Taille",
+  'report.gross': "Brute",
+  'report.net': "Nette",
+  'report.cutOuts': "Découpes",
+  'report.stripsDrops': "Lés × Panneaux",
+  'report.rolls': "Rouleaux",
+  'report.drops': "{count} lés de {length}",
+  'report.requirements': "Besoins estimés",
+  'report.rollsOf': "Rouleaux de {size} · rapport de {repeat}, raccord {match}",
+  'report.uniquePanels': "Panneaux panoramiques uniques de {width}",
+  'report.areas': "Surface murale nette {area} · Chutes {waste} ({percent} %)",
+  'report.tallWall': "{wall} mesure {height} de haut et traverse une jonction de panneaux de {length} : {panels} panneaux par lé ({extra} en plus) ou une impression sur mesure de {custom}",
+  'report.crossCheck': "La vérification IA comptait {strips} lés",
+  'report.quotation': "Devis",
+  'report.item': "Article",
+  'report.quantity': "Quantité",
+  'report.unitPrice': "Prix unitaire",
+  'report.hangingPlan': "Plan de pose",
+  'report.strip': "Lé",
+  'report.wall': "Mur",
+  'report.position': "Position",
+  'report.designWindow': "Fenêtre du dessin",
+  'report.placement': "Dessin imprimé à {percent} % ({size}), à partir de {offset} en largeur et {drop} en hauteur.",
+  'report.drop': "Pose"
+};
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { en, fr };
+
+export const detectLanguage = (): Language =>
+  typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('fr') ? 'fr' : 'en';
+
+let activeLanguage: Language = detectLanguage();
+
+export const getLanguage = () => activeLanguage;
+
+export function setLanguage(language: Language) {
+  activeLanguage = language;
+}
+
+/**
+ * Message in the active language with {placeholders} filled in; English stands in for anything untranslated.
+ */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = CATALOGS[activeLanguage][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match);
+}
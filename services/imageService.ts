@@ -0,0 +1,186 @@
+import { ImageUpload, RenderSize } from "../types";
+import { t } from "./i18nService";
+
+export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Longest edge sent to the model; originals are kept at full size for display and export
+export const DEFAULT_API_MAX_EDGE_PX = 2048;
+export const API_IMAGE_MAX_EDGE_PX = Number(process.env.API_IMAGE_MAX_EDGE) > 0 ? Number(process.env.API_IMAGE_MAX_EDGE) : DEFAULT_API_MAX_EDGE_PX;
+
+const JPEG_QUALITY = 0.92;
+
+export const toDataUrl = (image: ImageUpload) => `data:${image.mimeType};base64,${image.data}`;
+
+export const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error(t('error.imageDecode')));
+  img.src = src;
+});
+
+const readAsDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error(t('error.imageUnreadable')));
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * EXIF orientation tag (1-8) from a JPEG's APP1 segment; 1 when absent or unreadable.
+ */
+export function readExifOrientation(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return 1;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > view.byteLength) return 1;
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) return 1;
+        if (view.getUint16(entry, little) === 0x0112) return view.getUint16(entry + 8, little) || 1;
+      }
+      return 1;
+    }
+    // Image data starts at SOS; no EXIF can follow
+    if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+function encodeCanvas(source: CanvasImageSource, width: number, height: number, mimeType: string): ImageUpload {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(t('error.imageProcess'));
+  ctx.drawImage(source, 0, 0, width, height);
+  const type = mimeType === 'image/png' ? 'image/png' : 'image/jpeg';
+  const dataUrl = canvas.toDataURL(type, JPEG_QUALITY);
+  return { data: dataUrl.split(',')[1], mimeType: type, width, height };
+}
+
+/**
+ * Turns an uploaded file into an upright ImageUpload with its pixel size recorded. Rotated phone
+ * photos are re-encoded so every consumer, the model included, sees the same orientation as the screen.
+ */
+export async function ingestImage(file: File): Promise<ImageUpload> {
+  if (!SUPPORTED_IMAGE_TYPES.includes(file.type)) {
+    throw new Error(t('error.imageType', { type: file.type || t('error.imageTypeUnknown') }));
+  }
+  const orientation = file.type === 'image/jpeg' ? readExifOrientation(await file.arrayBuffer()) : 1;
+
+  const url = URL.createObjectURL(file);
+  try {
+    // Browsers apply EXIF orientation when decoding, so the natural size is already upright
+    const img = await loadImage(url).catch(() => {
+      throw new Error(t('error.imageDecode'));
+    });
+    const { naturalWidth: width, naturalHeight: height } = img;
+    if (orientation !== 1) return encodeCanvas(img, width, height, file.type);
+    const dataUrl = await readAsDataUrl(file);
+    return { data: dataUrl.split(',')[1], mimeType: file.type, width, height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Copy of the image no larger than the given edge for API calls; smaller images pass through untouched.
+ */
+export async function downscaleForApi(image: ImageUpload, maxEdge = API_IMAGE_MAX_EDGE_PX): Promise<ImageUpload> {
+  if (image.width && image.height && Math.max(image.width, image.height) <= maxEdge) return image;
+  const img = await loadImage(toDataUrl(image));
+  const ratio = maxEdge / Math.max(img.naturalWidth, img.naturalHeight);
+  if (ratio >= 1) return image;
+  return encodeCanvas(img, Math.round(img.naturalWidth * ratio), Math.round(img.naturalHeight * ratio), image.mimeType);
+}
+
+export interface AspectRatio {
+  label: string; // As the image models expect it, e.g. "4:3"
+  value: number; // Width over height
+}
+
+// Output ratios the image models accept
+export const RENDER_ASPECT_RATIOS: AspectRatio[] = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'].map(label => {
+  const [w, h] = label.split(':').map(Number);
+  return { label, value: w / h };
+});
+
+export const RENDER_SIZE_PX: Record<RenderSize, number> = {
+  '1K': 1024,
+  '2K': 2048,
+  '4K': 4096
+};
+
+/**
+ * Supported ratio nearest the photo's, compared on a log scale so portrait and landscape errors weigh the same.
+ */
+export function closestAspectRatio(width: number, height: number): AspectRatio {
+  const target = Math.log(width / height);
+  return RENDER_ASPECT_RATIOS.reduce((best, ratio) =>
+    Math.abs(Math.log(ratio.value) - target) < Math.abs(Math.log(best.value) - target) ? ratio : best
+  );
+}
+
+// Where the original photo sits inside a letterboxed copy, in percent of the padded image
+export interface LetterboxFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Pads the image with bars to the nearest supported render ratio instead of cropping it, so nothing the user marked is lost.
+ */
+export async function letterboxImage(image: ImageUpload): Promise<{ image: ImageUpload; frame: LetterboxFrame; aspectRatio: AspectRatio }> {
+  const img = await loadImage(toDataUrl(image));
+  const { naturalWidth: w, naturalHeight: h } = img;
+  const aspectRatio = closestAspectRatio(w, h);
+  const ratio = aspectRatio.value;
+  const width = Math.max(w, Math.round(h * ratio));
+  const height = Math.max(h, Math.round(w / ratio));
+  const frame = { x: ((width - w) / 2 / width) * 100, y: ((height - h) / 2 / height) * 100, width: (w / width) * 100, height: (h / height) * 100 };
+  if (width === w && height === h) return { image, frame, aspectRatio };
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(t('error.imageProcess'));
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, (width - w) / 2, (height - h) / 2);
+  const type = image.mimeType === 'image/png' ? 'image/png' : 'image/jpeg';
+  const dataUrl = canvas.toDataURL(type, JPEG_QUALITY);
+  return { image: { data: dataUrl.split(',')[1], mimeType: type, width, height }, frame, aspectRatio };
+}
+
+/**
+ * Cuts a rendered data URL back to the photo's own framing after a letterboxed request.
+ */
+export async function cropToFrame(dataUrl: string, frame: LetterboxFrame): Promise<string> {
+  if (frame.x === 0 && frame.y === 0 && frame.width === 100 && frame.height === 100) return dataUrl;
+  const img = await loadImage(dataUrl);
+  const sx = (frame.x / 100) * img.naturalWidth;
+  const sy = (frame.y / 100) * img.naturalHeight;
+  const sw = (frame.width / 100) * img.naturalWidth;
+  const sh = (frame.height / 100) * img.naturalHeight;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sw);
+  canvas.height = Math.round(sh);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error(t('error.imageProcess'));
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  const mime = dataUrl.slice(5, dataUrl.indexOf(';'));
+  return canvas.toDataURL(mime === 'image/jpeg' ? 'image/jpeg' : 'image/png', JPEG_QUALITY);
+}
@@ -0,0 +1,90 @@
+import { DetectedWall, Point, VisualizerState } from "../types";
+import type { AIProvider, AnalysisRequest, DetectionRequest, RenderRequest } from "./aiProvider";
+import { regionCorners } from "./geometryService";
+import { VisualizerError, delay } from "./errorService";
+import { RENDER_SIZE_PX, toDataUrl } from "./imageService";
+import { MOCK_ANALYSIS_FIXTURE } from "./fixtures/mockAnalysis";
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new VisualizerError('no_image', "Visualization synthesis failed"));
+  img.src = src;
+});
+
+/**
+ * Offline provider: deterministic fixture-driven measurements and a canvas-composited render.
+ */
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  requiresApiKey: false,
+
+  async detectWalls(_request: DetectionRequest): Promise<DetectedWall[]> {
+    await delay(MOCK_ANALYSIS_FIXTURE.latency_ms);
+    return MOCK_ANALYSIS_FIXTURE.detected_walls.map(wall => ({ ...wall, points: wall.points.map(p => [...p] as Point) }));
+  },
+
+  async analyze({ boxes, calibration, signal }: AnalysisRequest): Promise<VisualizerState> {
+    await delay(MOCK_ANALYSIS_FIXTURE.latency_ms, signal);
+    const { frame_width_cm, frame_height_cm, wallpaper, reference_box, reference_confidence } = MOCK_ANALYSIS_FIXTURE;
+
+    const regions = boxes.map(box => {
+      const width_cm = (Math.abs(box.end[0] - box.start[0]) / 100) * frame_width_cm;
+      const height_cm = (Math.abs(box.end[1] - box.start[1]) / 100) * frame_height_cm;
+      return { points: regionCorners(box), width_cm, height_cm, area_sq_m: (width_cm * height_cm) / 10000 };
+    });
+
+    return {
+      calibration: {
+        reference_type: calibration.reference_type,
+        real_world_cm: calibration.real_world_cm,
+        reference_found: true,
+        reference_box: [[...reference_box[0]], [...reference_box[1]]],
+        confidence: reference_confidence
+      },
+      wallpaper: { ...wallpaper },
+      regions,
+      total_rolls_estimated: regions.reduce((sum, r) => sum + Math.ceil(r.width_cm / wallpaper.roll_width_cm), 0)
+    };
+  },
+
+  async render({ roomImage, wallpaperImage, metadata, size, signal }: RenderRequest): Promise<string> {
+    await delay(MOCK_ANALYSIS_FIXTURE.latency_ms, signal);
+    const [room, paper] = await Promise.all([loadImage(toDataUrl(roomImage)), loadImage(toDataUrl(wallpaperImage))]);
+
+    const canvas = document.createElement('canvas');
+    const scale = RENDER_SIZE_PX[size] / Math.max(room.naturalWidth, room.naturalHeight);
+    canvas.width = Math.round(room.naturalWidth * scale);
+    canvas.height = Math.round(room.naturalHeight * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new VisualizerError('no_image', "Visualization synthesis failed");
+    ctx.drawImage(room, 0, 0, canvas.width, canvas.height);
+
+    const toPx = (p: Point): Point => [(p[0] / 100) * canvas.width, (p[1] / 100) * canvas.height];
+    const trace = (points: Point[]) => points.map(toPx).forEach(([x, y], i) => i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y));
+
+    metadata.regions.forEach(region => {
+      const px = region.points.map(toPx);
+      const xs = px.map(p => p[0]);
+      const ys = px.map(p => p[1]);
+      const [x1, y1] = [Math.min(...xs), Math.min(...ys)];
+
+      ctx.save();
+      // Even-odd clipping leaves the cut-outs unpapered
+      ctx.beginPath();
+      trace(region.points);
+      ctx.closePath();
+      (region.exclusions || []).forEach(exclusion => {
+        trace(exclusion.points);
+        ctx.closePath();
+      });
+      ctx.clip('evenodd');
+      ctx.globalAlpha = 0.85;
+      ctx.drawImage(paper, x1, y1, Math.max(...xs) - x1, Math.max(...ys) - y1);
+      ctx.restore();
+    });
+
+    return canvas.toDataURL('image/png');
+  }
+};
@@ -0,0 +1,42 @@
+import { Pipeline, PipelineStage, PipelineStageId, StageStatus } from "../types";
+
+const idleStage = (id: PipelineStageId): PipelineStage => ({ id, status: 'idle', completed: 0, total: 0, started_at: null, finished_at: null });
+
+export const PIPELINE_STAGES: PipelineStageId[] = ['analysis', 'render'];
+
+export const idlePipeline = (): Pipeline => ({ analysis: idleStage('analysis'), render: idleStage('render') });
+
+export function startStage(pipeline: Pipeline, id: PipelineStageId, total: number): Pipeline {
+  return { ...pipeline, [id]: { id, status: 'running', completed: 0, total, started_at: Date.now(), finished_at: null } };
+}
+
+export function advanceStage(pipeline: Pipeline, id: PipelineStageId): Pipeline {
+  const stage = pipeline[id];
+  return { ...pipeline, [id]: { ...stage, completed: Math.min(stage.total, stage.completed + 1) } };
+}
+
+/**
+ * Closes a stage with its outcome; stages that never started are left idle.
+ */
+export function endStage(pipeline: Pipeline, id: PipelineStageId, status: Exclude<StageStatus, 'idle' | 'running'>): Pipeline {
+  const stage = pipeline[id];
+  if (stage.status !== 'running') return pipeline;
+  return { ...pipeline, [id]: { ...stage, status, finished_at: Date.now() } };
+}
+
+// Ends whichever stage is still running, e.g. when the run fails or is cancelled part-way
+export const endRunning = (pipeline: Pipeline, status: 'failed' | 'cancelled') =>
+  PIPELINE_STAGES.reduce((next, id) => endStage(next, id, status), pipeline);
+
+export const isRunning = (pipeline: Pipeline, id?: PipelineStageId) =>
+  (id ? [pipeline[id]] : Object.values(pipeline)).some(stage => stage.status === 'running');
+
+export function stageElapsedMs(stage: PipelineStage, now: number): number {
+  if (stage.started_at === null) return 0;
+  return Math.max(0, (stage.finished_at ?? now) - stage.started_at);
+}
+
+export function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,36 @@
+import { Preferences, UnitSystem } from "../types";
+import { LANGUAGES, detectLanguage, setLanguage } from "./i18nService";
+import { detectUnitSystem, setUnitSystem } from "./unitService";
+import { withStore } from "./storageService";
+import { isRecord } from "./validationService";
+
+const PREFERENCES_ID = 'preferences';
+
+const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial'];
+
+export const defaultPreferences = (): Preferences => ({ language: detectLanguage(), unit_system: detectUnitSystem() });
+
+/**
+ * Makes the preferences current for every t() and unit formatting call.
+ */
+export function applyPreferences(preferences: Preferences) {
+  setLanguage(preferences.language);
+  setUnitSystem(preferences.unit_system);
+}
+
+/**
+ * Stored preferences, falling back to the browser's language and region for anything missing.
+ */
+export async function loadPreferences(): Promise<Preferences> {
+  const defaults = defaultPreferences();
+  const raw = await withStore<unknown>('settings', 'readonly', store => store.get(PREFERENCES_ID));
+  const stored: Record<string, unknown> = isRecord(raw) ? raw : {};
+  return {
+    language: LANGUAGES.find(l => l.id === stored.language)?.id ?? defaults.language,
+    unit_system: UNIT_SYSTEMS.find(u => u === stored.unit_system) ?? defaults.unit_system
+  };
+}
+
+export async function savePreferences(preferences: Preferences): Promise<void> {
+  await withStore('settings', 'readwrite', store => store.put({ id: PREFERENCES_ID, ...preferences }));
+}
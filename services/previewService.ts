@@ -0,0 +1,169 @@
+import { Box, CalibrationData, CropWindow, ImageSize, Point, Quad, RegionGeometry, StripPlanOptions, WallpaperMetadata } from "../types";
+import { DEFAULT_ROLL_WIDTH_CM } from "./estimationService";
+import { applyExclusions, boxCorners, hasLocalScale, measureBox, regionCorners } from "./geometryService";
+import { applyHomography, solveHomography } from "./homographyService";
+import { printScale } from "./stripPlanService";
+
+// Resolution of the flattened wall before it is warped into the photo
+const FLAT_PX_PER_CM = 1;
+const MAX_FLAT_EDGE_PX = 2048;
+// Mesh density for the perspective warp; canvas 2D only supports affine transforms per triangle
+const MESH_DIVISIONS = 8;
+
+export interface PreviewInput {
+  canvasSize: ImageSize;
+  roomSize: ImageSize;
+  paper: HTMLImageElement;
+  boxes: Box[];
+  calibration: CalibrationData | null;
+  wallpaper: WallpaperMetadata;
+  placement: StripPlanOptions;
+  windows?: CropWindow[]; // This photo's walls as laid out by the hanging plan, when it has measured them
+}
+
+/**
+ * Real-world size of a region. With a local scale it is measured; otherwise the wall is assumed to
+ * show the full printed design height, which keeps proportions right but not the absolute strip size.
+ */
+function wallGeometry(box: Box, input: PreviewInput): RegionGeometry {
+  if (hasLocalScale(input.calibration)) return measureBox(box, input.calibration);
+  const [[x1, y1], , [x2, y2]] = boxCorners(box);
+  const widthPx = ((x2 - x1) / 100) * input.roomSize.width;
+  const heightPx = Math.max(1e-6, ((y2 - y1) / 100) * input.roomSize.height);
+  const height_cm = input.wallpaper.master_height_cm * printScale(input.placement);
+  const width_cm = height_cm * (widthPx / heightPx);
+  return { points: regionCorners(box), width_cm, height_cm, area_sq_m: (width_cm * height_cm) / 10000 };
+}
+
+/**
+ * Average colour along the bottom edge of the design, used for the wall below a panoramic master.
+ */
+function groundColour(paper: HTMLImageElement): string {
+  const probe = document.createElement('canvas');
+  probe.width = 1;
+  probe.height = 1;
+  const ctx = probe.getContext('2d')!;
+  ctx.drawImage(paper, 0, paper.naturalHeight - 1, paper.naturalWidth, 1, 0, 0, 1, 1);
+  const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * Paints the design onto a fronto-parallel wall at true scale, with strip seams and cut-outs removed.
+ * The design is printed at the placement's scale and its top sits the vertical offset above the wall.
+ */
+function paintFlatWall(region: RegionGeometry, designOffsetCm: number, input: PreviewInput): HTMLCanvasElement {
+  const { paper, wallpaper, placement } = input;
+  const scale = Math.min(FLAT_PX_PER_CM, MAX_FLAT_EDGE_PX / Math.max(region.width_cm, region.height_cm, 1));
+  const flat = document.createElement('canvas');
+  flat.width = Math.max(1, Math.round(region.width_cm * scale));
+  flat.height = Math.max(1, Math.round(region.height_cm * scale));
+  const ctx = flat.getContext('2d')!;
+
+  // The uploaded image is the whole master panorama, printed at the master's catalog size
+  const printedWidth = wallpaper.master_width_cm * printScale(placement);
+  const printedHeight = wallpaper.master_height_cm * printScale(placement);
+  if (!(printedWidth > 0) || !(printedHeight > 0)) return flat;
+  const designWidthPx = printedWidth * scale;
+  const designHeightPx = printedHeight * scale;
+  const startX = -(((designOffsetCm % printedWidth) + printedWidth) % printedWidth) * scale;
+  const startY = -placement.vertical_offset_cm * scale;
+  const paintRow = (y: number) => {
+    for (let x = startX; x < flat.width; x += designWidthPx) {
+      ctx.drawImage(paper, x, y, designWidthPx, designHeightPx);
+    }
+  };
+  // A repeating design tiles down the wall; a panorama is printed once, with its ground colour carried on below
+  if (wallpaper.pattern_type === 'repeating') {
+    for (let y = startY; y < flat.height; y += designHeightPx) paintRow(y);
+  } else {
+    ctx.fillStyle = groundColour(paper);
+    ctx.fillRect(0, Math.max(0, startY + designHeightPx), flat.width, flat.height);
+    paintRow(startY);
+  }
+
+  const rollWidth = (wallpaper.roll_width_cm > 0 ? wallpaper.roll_width_cm : DEFAULT_ROLL_WIDTH_CM) * scale;
+  ctx.lineWidth = 1;
+  for (let x = rollWidth; x < flat.width; x += rollWidth) {
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+    ctx.beginPath();
+    ctx.moveTo(Math.round(x) + 0.5, 0);
+    ctx.lineTo(Math.round(x) + 0.5, flat.height);
+    ctx.stroke();
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.25)';
+    ctx.beginPath();
+    ctx.moveTo(Math.round(x) + 1.5, 0);
+    ctx.lineTo(Math.round(x) + 1.5, flat.height);
+    ctx.stroke();
+  }
+
+  (region.exclusions || []).forEach(e => {
+    ctx.clearRect(e.offset_x_cm * scale, e.offset_y_cm * scale, e.width_cm * scale, e.height_cm * scale);
+  });
+  return flat;
+}
+
+/**
+ * Draws a source triangle of an image into a destination triangle using the affine map between them.
+ */
+function drawTriangle(ctx: CanvasRenderingContext2D, src: CanvasImageSource, s: Point[], d: Point[]) {
+  const [[s0x, s0y], [s1x, s1y], [s2x, s2y]] = s;
+  const [[d0x, d0y], [d1x, d1y], [d2x, d2y]] = d;
+  const denom = (s1x - s0x) * (s2y - s0y) - (s2x - s0x) * (s1y - s0y);
+  if (Math.abs(denom) < 1e-9) return;
+  const a = ((d1x - d0x) * (s2y - s0y) - (d2x - d0x) * (s1y - s0y)) / denom;
+  const b = ((d1y - d0y) * (s2y - s0y) - (d2y - d0y) * (s1y - s0y)) / denom;
+  const c = ((d2x - d0x) * (s1x - s0x) - (d1x - d0x) * (s2x - s0x)) / denom;
+  const e = ((d2y - d0y) * (s1x - s0x) - (d1y - d0y) * (s2x - s0x)) / denom;
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.moveTo(d0x, d0y);
+  ctx.lineTo(d1x, d1y);
+  ctx.lineTo(d2x, d2y);
+  ctx.closePath();
+  ctx.clip();
+  ctx.transform(a, b, c, e, d0x - a * s0x - c * s0y, d0y - b * s0x - e * s0y);
+  ctx.drawImage(src, 0, 0);
+  ctx.restore();
+}
+
+/**
+ * Warps a flat wall canvas onto the region's outline in the photo via a triangulated mesh.
+ */
+function warpOntoQuad(ctx: CanvasRenderingContext2D, flat: HTMLCanvasElement, quad: Quad) {
+  const toQuad = solveHomography([[0, 0], [1, 0], [1, 1], [0, 1]], quad);
+  if (!toQuad) return;
+  const n = MESH_DIVISIONS;
+  const src = (i: number, j: number): Point => [(i / n) * flat.width, (j / n) * flat.height];
+  const dst = (i: number, j: number): Point => applyHomography(toQuad, [i / n, j / n]);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      drawTriangle(ctx, flat, [src(i, j), src(i + 1, j), src(i + 1, j + 1)], [dst(i, j), dst(i + 1, j), dst(i + 1, j + 1)]);
+      drawTriangle(ctx, flat, [src(i, j), src(i + 1, j + 1), src(i, j + 1)], [dst(i, j), dst(i + 1, j + 1), dst(i, j + 1)]);
+    }
+  }
+}
+
+/**
+ * Client-side preview of the design on every marked region, placed as the hanging plan places it.
+ * Walls the plan has measured start where its crop windows say; any others follow the same
+ * continuity rule from the start offset, in marking order.
+ */
+export function renderWallpaperPreview(ctx: CanvasRenderingContext2D, input: PreviewInput) {
+  const { canvasSize, boxes, placement, windows = [] } = input;
+  ctx.clearRect(0, 0, canvasSize.width, canvasSize.height);
+  const printedWidth = input.wallpaper.master_width_cm * printScale(placement);
+  let designCursor = placement.start_offset_cm;
+
+  boxes.forEach((box, i) => {
+    const region = applyExclusions(wallGeometry(box, input), box);
+    if (!(region.width_cm > 0) || !(region.height_cm > 0)) return;
+    const planned = windows.find(w => w.region_index === i);
+    const wallStart = planned ? (planned.x_from / 100) * printedWidth : placement.continuity === 'restart' ? placement.start_offset_cm : designCursor;
+    const flat = paintFlatWall(region, wallStart, input);
+    const quad = regionCorners(box).map(p => [(p[0] / 100) * canvasSize.width, (p[1] / 100) * canvasSize.height]) as Quad;
+    warpOntoQuad(ctx, flat, quad);
+    designCursor = wallStart + region.width_cm;
+  });
+}
@@ -0,0 +1,102 @@
+import { PricingSettings, Quote, QuoteLine, RollEstimate } from "../types";
+import { getLanguage, t } from "./i18nService";
+import { areaUnit, toDisplayArea, toDisplayAreaPrice } from "./unitService";
+
+// Indicative rates against GBP; the sales team overrides them per quote
+export const DEFAULT_EXCHANGE_RATES: Record<string, number> = {
+  GBP: 1,
+  EUR: 1.17,
+  USD: 1.27,
+  CHF: 1.12,
+  AED: 4.66
+};
+
+export const QUOTE_CURRENCIES = Object.keys(DEFAULT_EXCHANGE_RATES);
+
+export const DEFAULT_PRICING: PricingSettings = {
+  currency: 'GBP',
+  roll_price: 0,
+  roll_price_currency: 'GBP',
+  extras_currency: 'GBP',
+  overage_percent: 10,
+  adhesive_per_roll: 6,
+  lining_per_sq_m: 0,
+  labour_per_sq_m: 35,
+  shipping: 45,
+  tax_percent: 20,
+  exchange_rates: DEFAULT_EXCHANGE_RATES
+};
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Whether Intl can format amounts in the code; anything else would throw a RangeError at render time.
+ */
+export function isCurrencyCode(code: string): boolean {
+  if (!/^[A-Z]{3}$/.test(code)) return false;
+  try {
+    new Intl.NumberFormat('en', { style: 'currency', currency: code });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Unknown codes fall back to a plain number followed by the code rather than failing the whole view
+export const formatMoney = (amount: number, currency: string) => isCurrencyCode(currency)
+  ? new Intl.NumberFormat(getLanguage(), { style: 'currency', currency }).format(amount)
+  : `${new Intl.NumberFormat(getLanguage(), { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(amount)} ${currency}`;
+
+/**
+ * Converts between currencies through their GBP rates. Unknown currencies are treated as already matching.
+ */
+export function convertAmount(amount: number, from: string, to: string, rates: Record<string, number>): number {
+  if (from === to) return amount;
+  const fromRate = rates[from];
+  const toRate = rates[to];
+  if (!(fromRate > 0) || !(toRate > 0)) return amount;
+  return (amount / fromRate) * toRate;
+}
+
+/**
+ * Itemized quote from the measured estimate. Paper is ordered in whole rolls with the overage on top;
+ * lining and labour are charged on the net wall area in the active units, and tax applies to the whole subtotal.
+ * The roll price and the extras are each converted from their own currency into the quote's.
+ * The rolls are always listed, so a missing roll price is flagged rather than leaving the paper off the quote.
+ */
+export function buildQuote(estimate: RollEstimate, settings: PricingSettings): Quote {
+  const rolls = estimate.total_rolls > 0 ? Math.ceil(estimate.total_rolls * (1 + Math.max(0, settings.overage_percent) / 100)) : 0;
+  const area = roundMoney(toDisplayArea(estimate.wall_area_sq_m));
+  const rollPrice = convertAmount(settings.roll_price, settings.roll_price_currency, settings.currency, settings.exchange_rates);
+  const extra = (amount: number) => convertAmount(amount, settings.extras_currency, settings.currency, settings.exchange_rates);
+
+  const line = (label: string, quantity: number, unit: string, unitPrice: number): QuoteLine => ({
+    label,
+    quantity,
+    unit,
+    unit_price: roundMoney(unitPrice),
+    total: roundMoney(quantity * unitPrice)
+  });
+
+  const paper = line(settings.overage_percent > 0 ? t('quote.line.wallpaperOverage', { percent: settings.overage_percent }) : t('quote.line.wallpaper'), rolls, t('quote.unit.roll'), rollPrice);
+  const extras = [
+    line(t('quote.line.adhesive'), rolls, t('quote.unit.roll'), extra(settings.adhesive_per_roll)),
+    line(t('quote.line.lining'), area, areaUnit(), toDisplayAreaPrice(extra(settings.lining_per_sq_m))),
+    line(t('quote.line.installation'), area, areaUnit(), toDisplayAreaPrice(extra(settings.labour_per_sq_m))),
+    line(t('quote.line.shipping'), 1, t('quote.unit.order'), extra(settings.shipping))
+  ].filter(l => l.total > 0);
+  const lines = paper.quantity > 0 ? [paper, ...extras] : extras;
+
+  const subtotal = roundMoney(lines.reduce((sum, l) => sum + l.total, 0));
+  const tax = roundMoney(subtotal * Math.max(0, settings.tax_percent) / 100);
+
+  return {
+    currency: settings.currency,
+    lines,
+    roll_price_missing: rolls > 0 && !(rollPrice > 0),
+    subtotal,
+    tax_percent: settings.tax_percent,
+    tax,
+    total: roundMoney(subtotal + tax)
+  };
+}
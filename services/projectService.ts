@@ -0,0 +1,195 @@
+import { Box, DesignVariant, ImageSize, ImageUpload, PricingSettings, ProjectCalibration, ProjectSummary, ReferenceType, RoomPhoto, StripPlanOptions, VisualizerProject, VisualizerState, WallSuggestion } from "../types";
+import { downloadDataUrl } from "./exportService";
+import { t } from "./i18nService";
+import { withStore } from "./storageService";
+import { DEFAULT_PRICING } from "./pricingService";
+import { DEFAULT_STRIP_PLAN_OPTIONS } from "./stripPlanService";
+import { isPoint, isRecord } from "./validationService";
+
+export const PROJECT_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.fromental.json';
+
+export const createProjectId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `p-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+export const summarizeProject = (project: VisualizerProject): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  updated_at: project.updated_at,
+  photo_count: project.photos.length,
+  wall_count: project.photos.reduce((sum, photo) => sum + photo.boxes.length, 0),
+  has_render: project.photos.some(photo => !!photo.rendered_image)
+});
+
+const invalid = (): never => {
+  throw new Error(t('error.projectInvalid'));
+};
+
+const list = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+const isImageUpload = (value: unknown): value is ImageUpload =>
+  isRecord(value) && typeof value.data === 'string' && typeof value.mimeType === 'string';
+
+const isImageSize = (value: unknown): value is ImageSize =>
+  isRecord(value) && typeof value.width === 'number' && typeof value.height === 'number';
+
+const isReferenceType = (value: unknown): value is ReferenceType => Object.values<unknown>(ReferenceType).includes(value);
+
+const isBox = (value: unknown): value is Box => isRecord(value) && isPoint(value.start) && isPoint(value.end);
+
+const isSuggestion = (value: unknown): value is WallSuggestion =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.label === 'string' && isBox(value.box);
+
+// Only the containers the results read are checked; an analysis without them is dropped and redone on the next run
+const isAnalysis = (value: unknown): value is VisualizerState =>
+  isRecord(value) && isRecord(value.calibration) && isRecord(value.wallpaper) && Array.isArray(value.regions);
+
+const isVariant = (value: unknown): value is DesignVariant =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' && isImageUpload(value.image) &&
+  (value.design_id === null || typeof value.design_id === 'string') && isRecord(value.spec) && isRecord(value.renders);
+
+/**
+ * Lays saved settings over the defaults field by field, keeping only values of the same type as the default.
+ */
+function withDefaults<T extends object>(defaults: T, raw: unknown): T {
+  if (!isRecord(raw)) return defaults;
+  const merged = { ...defaults };
+  for (const key of Object.keys(defaults) as (keyof T & string)[]) {
+    const value = raw[key];
+    if (typeof value === typeof defaults[key]) merged[key] = value as T[typeof key];
+  }
+  return merged;
+}
+
+function parseStripPlanOptions(raw: unknown): StripPlanOptions {
+  const options = withDefaults(DEFAULT_STRIP_PLAN_OPTIONS, raw);
+  return options.continuity === 'continuous' || options.continuity === 'restart' ? options : { ...options, continuity: DEFAULT_STRIP_PLAN_OPTIONS.continuity };
+}
+
+// Before the extras had their own currency they were entered in the quote currency
+function parsePricing(raw: unknown): PricingSettings {
+  if (!isRecord(raw)) return DEFAULT_PRICING;
+  const currency = typeof raw.currency === 'string' ? raw.currency : DEFAULT_PRICING.currency;
+  return withDefaults({ ...DEFAULT_PRICING, extras_currency: currency }, raw);
+}
+
+function parseCalibration(raw: unknown): ProjectCalibration {
+  if (!isRecord(raw) || !isReferenceType(raw.reference_type) || typeof raw.ref_height_cm !== 'number') return invalid();
+  const segment = list(raw.segment);
+  return {
+    reference_type: raw.reference_type,
+    ref_height_cm: raw.ref_height_cm,
+    segment: segment.length === 2 && isPoint(segment[0]) && isPoint(segment[1]) ? [segment[0], segment[1]] : null
+  };
+}
+
+/**
+ * A photo must bring its image, walls and reference, which the editor reads unguarded; a project with
+ * a broken photo is rejected whole. Results that no longer fit are dropped and redone on the next run.
+ */
+function parsePhoto(raw: unknown): RoomPhoto {
+  if (!isRecord(raw) || !isImageUpload(raw.image)) return invalid();
+  const boxes = list(raw.boxes);
+  if (!boxes.every(isBox)) return invalid();
+  return {
+    id: typeof raw.id === 'string' ? raw.id : createProjectId(),
+    image: raw.image,
+    image_size: isImageSize(raw.image_size) ? raw.image_size : null,
+    boxes,
+    calibration: parseCalibration(raw.calibration),
+    analysis: isAnalysis(raw.analysis) ? raw.analysis : null,
+    rendered_image: typeof raw.rendered_image === 'string' ? raw.rendered_image : null,
+    render_candidates: list(raw.render_candidates).filter((c): c is string => typeof c === 'string'),
+    suggestions: list(raw.suggestions).filter(isSuggestion)
+  };
+}
+
+/**
+ * Upgrades older project files to the current shape. Version 1 held a single photo at the top level;
+ * it becomes the first entry of the photo list.
+ */
+function migrateProject(raw: unknown): VisualizerProject {
+  if (!isRecord(raw) || typeof raw.version !== 'number' || typeof raw.id !== 'string') return invalid();
+  if (raw.version > PROJECT_VERSION) {
+    throw new Error(t('error.projectNewer', { version: raw.version }));
+  }
+  const { analysis } = raw;
+  const photos = raw.version >= 2 ? list(raw.photos).map(parsePhoto) : raw.room_image ? [parsePhoto({
+    image: raw.room_image,
+    image_size: isRecord(analysis) && isRecord(analysis.calibration) ? analysis.calibration.image_size : null,
+    boxes: raw.boxes,
+    calibration: raw.calibration,
+    analysis,
+    rendered_image: raw.rendered_image
+  })] : [];
+  return {
+    version: PROJECT_VERSION,
+    id: raw.id,
+    name: typeof raw.name === 'string' ? raw.name : t('projects.untitled'),
+    created_at: typeof raw.created_at === 'string' ? raw.created_at : '',
+    updated_at: typeof raw.updated_at === 'string' ? raw.updated_at : '',
+    photos,
+    wallpaper_image: isImageUpload(raw.wallpaper_image) ? raw.wallpaper_image : null,
+    strip_plan_options: parseStripPlanOptions(raw.strip_plan_options),
+    pricing: parsePricing(raw.pricing),
+    design_id: typeof raw.design_id === 'string' ? raw.design_id : null,
+    variants: list(raw.variants).filter(isVariant)
+  };
+}
+
+export function serializeProject(project: VisualizerProject): string {
+  return JSON.stringify({ ...project, version: PROJECT_VERSION });
+}
+
+export function parseProject(json: string): VisualizerProject {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return invalid();
+  }
+  if (!isRecord(raw) || !(raw.calibration || Array.isArray(raw.photos))) return invalid();
+  return migrateProject(raw);
+}
+
+/**
+ * Downloads the project as a versioned JSON file, images included, for sharing between devices.
+ */
+export function exportProjectFile(project: VisualizerProject) {
+  const blob = new Blob([serializeProject(project)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const safeName = project.name.trim().replace(/[^\w-]+/g, '-').toLowerCase() || 'project';
+  downloadDataUrl(url, `${safeName}${PROJECT_FILE_EXTENSION}`);
+  URL.revokeObjectURL(url);
+}
+
+export async function importProjectFile(file: File): Promise<VisualizerProject> {
+  return parseProject(await file.text());
+}
+
+export async function saveProject(project: VisualizerProject): Promise<void> {
+  await withStore('projects', 'readwrite', store => store.put(JSON.parse(serializeProject(project))));
+}
+
+export async function loadProject(id: string): Promise<VisualizerProject | null> {
+  const raw = await withStore<unknown>('projects', 'readonly', store => store.get(id));
+  return raw ? migrateProject(raw) : null;
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await withStore('projects', 'readwrite', store => store.delete(id));
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const all = await withStore<unknown[]>('projects', 'readonly', store => store.getAll());
+  // A stored project that no longer reads is left out rather than hiding every other one
+  return all
+    .flatMap(raw => {
+      try {
+        return [summarizeProject(migrateProject(raw))];
+      } catch {
+        return [];
+      }
+    })
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+}
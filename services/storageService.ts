@@ -0,0 +1,35 @@
+const DB_NAME = 'fromental-visualizer';
+const DB_VERSION = 3;
+
+export type StoreName = 'projects' | 'designs' | 'settings';
+
+const STORES: StoreName[] = ['projects', 'designs', 'settings'];
+
+const openDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    STORES.forEach(name => {
+      if (!request.result.objectStoreNames.contains(name)) {
+        request.result.createObjectStore(name, { keyPath: 'id' });
+      }
+    });
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Runs a single request against one of the local stores and closes the connection afterwards.
+ */
+export async function withStore<T>(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(name, mode).objectStore(name));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,114 @@
+import { CropWindow, PlannedStrip, Point, Quad, RegionGeometry, StripPlan, StripPlanOptions, VisualizerState, WallpaperMetadata } from "../types";
+import { classifyStrips, DEFAULT_ROLL_WIDTH_CM, flattenRoomRegions } from "./estimationService";
+import { applyHomography, solveHomography } from "./homographyService";
+
+export const DEFAULT_STRIP_PLAN_OPTIONS: StripPlanOptions = {
+  start_offset_cm: 0,
+  continuity: 'continuous',
+  vertical_offset_cm: 0,
+  scale: 1
+};
+
+const UNIT_SQUARE: Quad = [[0, 0], [1, 0], [1, 1], [0, 1]];
+
+/**
+ * Maps 0-1 wall-plane fractions back onto the photo for a region's four corners.
+ */
+function planeToImage(points: Point[]): (p: Point) => Point {
+  const h = points.length === 4 ? solveHomography(UNIT_SQUARE, points as Quad) : null;
+  if (h) return p => applyHomography(h, p);
+  const xs = points.map(p => p[0]);
+  const ys = points.map(p => p[1]);
+  const [x1, x2, y1, y2] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  return p => [x1 + p[0] * (x2 - x1), y1 + p[1] * (y2 - y1)];
+}
+
+// Printed size of the master relative to its catalog dimensions, ignoring unset or invalid values
+export const printScale = (options: StripPlanOptions) => options.scale > 0 ? options.scale : 1;
+
+const wrap = (value: number, period: number) => period > 0 ? ((value % period) + period) % period : value;
+
+/**
+ * Lays the panorama across the walls in order and numbers every strip to be hung.
+ * Walls are taken in the order they were marked; with 'continuous' the design carries on
+ * from where the previous wall ended, otherwise each wall starts again at the chosen offset.
+ * The master is printed at the chosen scale and every wall's top edge sits at the vertical offset,
+ * so each region also gets the crop window of the artwork it shows.
+ */
+export function planStrips(regions: RegionGeometry[], wallpaper: WallpaperMetadata, options: StripPlanOptions = DEFAULT_STRIP_PLAN_OPTIONS): StripPlan {
+  const rollWidth = wallpaper.roll_width_cm > 0 ? wallpaper.roll_width_cm : DEFAULT_ROLL_WIDTH_CM;
+  const scale = printScale(options);
+  const masterWidth = Math.max(0, wallpaper.master_width_cm || 0) * scale;
+  const masterHeight = Math.max(0, wallpaper.master_height_cm || 0) * scale;
+  const percentOf = (value: number, period: number) => period > 0 ? (value / period) * 100 : 0;
+  const strips: PlannedStrip[] = [];
+  const windows: CropWindow[] = [];
+  let designCursor = options.start_offset_cm;
+  let number = 0;
+
+  regions.forEach((region, regionIndex) => {
+    const width = Math.max(0, region.width_cm || 0);
+    const count = width > 0 ? Math.ceil(width / rollWidth) : 0;
+    const kinds = classifyStrips(count, rollWidth, region.height_cm, region.exclusions || []);
+    const toImage = planeToImage(region.points);
+    const wallStart = options.continuity === 'restart' ? options.start_offset_cm : designCursor;
+    const designTop = options.vertical_offset_cm;
+    const designBottom = designTop + Math.max(0, region.height_cm || 0);
+
+    kinds.forEach((kind, column) => {
+      const wallFrom = column * rollWidth;
+      const wallTo = Math.min(width, wallFrom + rollWidth);
+      const fx1 = wallFrom / width;
+      const fx2 = wallTo / width;
+      const designFrom = wrap(wallStart + wallFrom, masterWidth);
+      strips.push({
+        number: kind === 'skipped' ? null : ++number,
+        region_index: regionIndex,
+        column_index: column,
+        kind,
+        wall_from_cm: wallFrom,
+        wall_to_cm: wallTo,
+        design_from_cm: designFrom,
+        design_to_cm: designFrom + (wallTo - wallFrom),
+        design_top_cm: designTop,
+        design_bottom_cm: designBottom,
+        points: [toImage([fx1, 0]), toImage([fx2, 0]), toImage([fx2, 1]), toImage([fx1, 1])]
+      });
+    });
+
+    const windowFrom = wrap(wallStart, masterWidth);
+    windows.push({
+      region_index: regionIndex,
+      x_from: percentOf(windowFrom, masterWidth),
+      x_to: percentOf(windowFrom + width, masterWidth),
+      y_from: percentOf(designTop, masterHeight),
+      y_to: percentOf(designBottom, masterHeight)
+    });
+
+    designCursor = wallStart + width;
+  });
+
+  return { options, strips, windows, hung_strips: number };
+}
+
+/**
+ * One continuous hanging sequence around the room: photos are taken in order, so strip numbers
+ * and the panorama carry on from the last wall of one photo to the first wall of the next.
+ */
+export function planRoomStrips(analyses: (Pick<VisualizerState, 'regions'> | null)[], wallpaper: WallpaperMetadata, options: StripPlanOptions = DEFAULT_STRIP_PLAN_OPTIONS): StripPlan {
+  const entries = flattenRoomRegions(analyses);
+  const plan = planStrips(entries.map(e => e.region), wallpaper, options);
+  const tag = <T extends { region_index: number }>(item: T): T =>
+    ({ ...item, region_index: entries[item.region_index].region_index, photo_index: entries[item.region_index].photo_index });
+  return {
+    ...plan,
+    strips: plan.strips.map(tag),
+    windows: plan.windows.map(tag)
+  };
+}
+
+/**
+ * Crop windows of the walls marked on one photo, as given to its render.
+ */
+export const photoWindows = (plan: StripPlan, photoIndex: number): CropWindow[] =>
+  plan.windows.filter(w => (w.photo_index ?? 0) === photoIndex);
@@ -0,0 +1,57 @@
+import { UnitSystem } from "../types";
+
+export const CM_PER_INCH = 2.54;
+export const SQ_FT_PER_SQ_M = 10.7639;
+
+export const detectUnitSystem = (): UnitSystem =>
+  typeof navigator !== 'undefined' && /^en-(US|LR|MM)$/i.test(navigator.language ?? '') ? 'imperial' : 'metric';
+
+let activeSystem: UnitSystem = detectUnitSystem();
+
+export const getUnitSystem = () => activeSystem;
+
+export function setUnitSystem(system: UnitSystem) {
+  activeSystem = system;
+}
+
+const round = (value: number, step: number) => Math.round(value / step) * step;
+
+const trim = (value: number, digits: number) => Number(value.toFixed(digits)).toString();
+
+/**
+ * Length for display: centimetres, or feet and inches (plain inches under a foot).
+ */
+export function formatLength(cm: number, digits = 0): string {
+  if (activeSystem === 'metric') return `${trim(cm, digits)} cm`;
+  const inches = round(cm / CM_PER_INCH, 0.5);
+  if (inches < 12) return `${trim(inches, 1)} in`;
+  const feet = Math.floor(inches / 12);
+  const rest = inches - feet * 12;
+  return rest ? `${feet}′ ${trim(rest, 1)}″` : `${feet}′`;
+}
+
+export function formatArea(sqm: number, digits = 2): string {
+  return activeSystem === 'metric' ? `${sqm.toFixed(digits)} m²` : `${(sqm * SQ_FT_PER_SQ_M).toFixed(Math.max(0, digits - 1))} sq ft`;
+}
+
+// Unit label for length inputs
+export const lengthUnit = () => activeSystem === 'metric' ? 'cm' : 'in';
+
+export const areaUnit = () => activeSystem === 'metric' ? 'm²' : 'sq ft';
+
+export const formatScale = (pixelsPerCm: number) =>
+  activeSystem === 'metric' ? `${pixelsPerCm.toFixed(2)} px/cm` : `${(pixelsPerCm * CM_PER_INCH).toFixed(2)} px/in`;
+
+/**
+ * Canonical centimetres as shown in a number input.
+ */
+export const toDisplayLength = (cm: number) => activeSystem === 'metric' ? cm : round(cm / CM_PER_INCH, 0.1);
+
+export const fromDisplayLength = (value: number) => activeSystem === 'metric' ? value : value * CM_PER_INCH;
+
+// Per-area prices are stored per m²; a price per sq ft is the same money over a smaller area
+export const toDisplayAreaPrice = (perSqM: number) => activeSystem === 'metric' ? perSqM : perSqM / SQ_FT_PER_SQ_M;
+
+export const fromDisplayAreaPrice = (value: number) => activeSystem === 'metric' ? value : value * SQ_FT_PER_SQ_M;
+
+export const toDisplayArea = (sqm: number) => activeSystem === 'metric' ? sqm : sqm * SQ_FT_PER_SQ_M;
@@ -0,0 +1,114 @@
+import { CalibrationData, CalibrationIssue, DetectedWall, Point, VisualizerState } from "../types";
+import { VisualizerError } from "./errorService";
+import { t } from "./i18nService";
+
+// Anything outside this range is a misread label, not a real roll width
+const MIN_ROLL_WIDTH_CM = 20;
+const MAX_ROLL_WIDTH_CM = 200;
+
+// Below this the detected reference is shown to the user before any render is spent on it
+export const MIN_CALIBRATION_CONFIDENCE = 0.6;
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const fail = (details: string): never => {
+  throw new VisualizerError('malformed', "The spatial analysis response failed validation", details);
+};
+
+/**
+ * Checks a raw model answer has the containers later steps rely on, before any post-processing touches it.
+ */
+export function assertAnalysisShape(raw: unknown): asserts raw is VisualizerState {
+  if (!raw || typeof raw !== 'object') fail("Response is not an object");
+  const state = raw as Partial<VisualizerState>;
+  if (!state.calibration || typeof state.calibration !== 'object') fail("Missing calibration");
+  if (!state.wallpaper || typeof state.wallpaper !== 'object') fail("Missing wallpaper metadata");
+  if (!Array.isArray(state.regions)) fail("Missing regions");
+}
+
+/**
+ * Validates the final analysis against what was asked for: one region per box, positive dimensions
+ * and a plausible roll width.
+ */
+export function validateAnalysis(state: VisualizerState, expectedRegions: number): VisualizerState {
+  assertAnalysisShape(state);
+  const { wallpaper, regions } = state;
+
+  if (regions.length !== expectedRegions) {
+    fail(`Expected ${expectedRegions} regions, received ${regions.length}`);
+  }
+  regions.forEach((region, i) => {
+    if (!isPositive(region.width_cm) || !isPositive(region.height_cm)) {
+      fail(`Region ${i + 1} has non-positive dimensions (${region.width_cm} × ${region.height_cm})`);
+    }
+    if (!Array.isArray(region.points) || region.points.length < 3) {
+      fail(`Region ${i + 1} has no outline`);
+    }
+  });
+  if (!isPositive(wallpaper.roll_width_cm) || wallpaper.roll_width_cm < MIN_ROLL_WIDTH_CM || wallpaper.roll_width_cm > MAX_ROLL_WIDTH_CM) {
+    fail(`Implausible roll width ${wallpaper.roll_width_cm}cm`);
+  }
+  if (!isPositive(wallpaper.roll_length_cm)) {
+    fail(`Implausible roll length ${wallpaper.roll_length_cm}cm`);
+  }
+  if (!isPositive(wallpaper.master_width_cm) || !isPositive(wallpaper.master_height_cm)) {
+    fail(`Master design has non-positive dimensions (${wallpaper.master_width_cm} × ${wallpaper.master_height_cm})`);
+  }
+  return { ...state, calibration: normalizeCalibration(state.calibration) };
+}
+
+/**
+ * Tidies the model's report on the reference object: confidence as 0-1 (percentages are accepted),
+ * and the bounding box ordered and clamped, or dropped when it is not two points.
+ */
+function normalizeCalibration(calibration: CalibrationData): CalibrationData {
+  const { reference_box, confidence, pixels_per_cm, ...rest } = calibration;
+  const normalized: CalibrationData = { ...rest };
+  if (isPositive(pixels_per_cm)) normalized.pixels_per_cm = pixels_per_cm;
+  if (typeof confidence === 'number' && Number.isFinite(confidence)) {
+    normalized.confidence = Math.max(0, Math.min(1, confidence > 1 ? confidence / 100 : confidence));
+  }
+  if (Array.isArray(reference_box) && reference_box.length === 2 && reference_box.every(p => Array.isArray(p) && isCoordinate(p[0]) && isCoordinate(p[1]))) {
+    const clamp = (v: number) => Math.max(0, Math.min(100, v));
+    const [a, b] = reference_box;
+    normalized.reference_box = [
+      [clamp(Math.min(a[0], b[0])), clamp(Math.min(a[1], b[1]))],
+      [clamp(Math.max(a[0], b[0])), clamp(Math.max(a[1], b[1]))]
+    ];
+  }
+  return normalized;
+}
+
+/**
+ * Whether a calibration needs the user's attention before rendering. User-drawn reference lines are
+ * always trusted; a missing reference blocks, a doubtful one warns. Older analyses without a score pass.
+ */
+export function assessCalibration(calibration: CalibrationData): CalibrationIssue | null {
+  if (calibration.segment) return null;
+  const confidence = typeof calibration.confidence === 'number' ? calibration.confidence : null;
+  if (calibration.reference_found === false) return { kind: 'not_found', confidence };
+  if (confidence !== null && confidence < MIN_CALIBRATION_CONFIDENCE) return { kind: 'low_confidence', confidence };
+  return null;
+}
+
+const isCoordinate = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isPoint = (value: unknown): value is Point => Array.isArray(value) && isCoordinate(value[0]) && isCoordinate(value[1]);
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Keeps the usable walls from a raw detection answer: four-cornered outlines clamped to the image.
+ * Individual bad walls are dropped; only a response that is not a list at all counts as malformed.
+ */
+export function validateWallDetection(raw: unknown): DetectedWall[] {
+  if (!Array.isArray(raw)) return fail("Wall detection did not return a list");
+  const walls: unknown[] = raw;
+  return walls.flatMap((wall, i) => {
+    if (!isRecord(wall)) return [];
+    const points: unknown[] = Array.isArray(wall.points) ? wall.points : [];
+    if (points.length !== 4 || !points.every(isPoint)) return [];
+    const clamped = points.map((p): Point => [Math.max(0, Math.min(100, p[0])), Math.max(0, Math.min(100, p[1]))]);
+    return [{ label: typeof wall.label === 'string' && wall.label.trim() ? wall.label.trim() : t('common.wall', { n: i + 1 }), points: clamped }];
+  });
+}
@@ -0,0 +1,198 @@
+
+import { ImageUpload, VisualizerState, Box, CropWindow, CalibrationData, Point, ReferenceType, RenderSize, WallSuggestion, WallpaperMetadata } from "../types";
+import { getAIProvider } from "./aiProvider";
+import { DEFAULT_RETRY, withRetry } from "./errorService";
+import { LetterboxFrame, cropToFrame, downscaleForApi, letterboxImage } from "./imageService";
+import { DEFAULT_WALLPAPER } from "./estimationService";
+import { applyExclusions, boxFromCorners, hasLocalScale, measureBox, regionCorners } from "./geometryService";
+import { assertAnalysisShape, validateAnalysis, validateWallDetection } from "./validationService";
+
+// Detected outlines thinner than this, in percent of the photo, are slivers rather than walls
+const MIN_SUGGESTION_SPAN = 2;
+
+/**
+ * Asks the model to propose the paperable wall areas in the photo, as suggestions for the user to accept, edit or reject.
+ */
+export async function detectWallRegions(roomImage: ImageUpload, existingBoxes: Box[] = []): Promise<WallSuggestion[]> {
+  const prompt = `
+    Identify every wall surface in this room photo that could be wallpapered.
+
+    RULES:
+    - Return one entry per continuous wall plane; split walls that meet at a corner into separate entries.
+    - Outline only bare wall: stop at the ceiling, floor, skirting and cornice, and leave out furniture, windows and doors standing in front of or set into the wall. Where an opening interrupts a wall, return the wall areas on either side of it as separate entries.
+    - Give four corners per wall, clockwise from top-left, as [x, y] in normalized 0-100 image coordinates. Follow the wall's perspective.
+    - Label each wall briefly by its position, e.g. "Left wall" or "Back wall right of window".
+    ${existingBoxes.length > 0 ? `- These areas are already marked; do not return them again: ${JSON.stringify(existingBoxes.map(regionCorners))}.` : ''}
+
+    Return results in this JSON format:
+    { "walls": [ { "label": "Back wall", "points": [[x,y], [x,y], [x,y], [x,y]] } ] }
+  `;
+
+  const room = await downscaleForApi(roomImage);
+  return withRetry(async () => {
+    const walls = validateWallDetection(await getAIProvider().detectWalls({ roomImage: room, prompt }));
+    return walls
+      .map((wall, i) => ({ id: `suggestion-${Date.now()}-${i}`, label: wall.label, box: boxFromCorners(wall.points) }))
+      .filter(({ box }) => box.end[0] - box.start[0] >= MIN_SUGGESTION_SPAN && box.end[1] - box.start[1] >= MIN_SUGGESTION_SPAN);
+  });
+}
+
+/**
+ * Analyzes the room photo based on user-marked rectangular boxes to calculate exact dimensions.
+ */
+export async function analyzeMarkedRegions(
+  roomImage: ImageUpload,
+  wallpaperImage: ImageUpload,
+  refType: string,
+  refHeight: number,
+  userBoxes: Box[],
+  calibration?: CalibrationData,
+  wallpaperSpec?: Partial<WallpaperMetadata>,
+  signal?: AbortSignal
+): Promise<VisualizerState> {
+  const spec: WallpaperMetadata = { ...DEFAULT_WALLPAPER, ...wallpaperSpec };
+  const rollWidth = spec.roll_width_cm;
+  // Catalog designs carry their product dimensions; plain uploads may only say how the pattern repeats
+  const knownDimensions = !!wallpaperSpec?.roll_width_cm;
+  const rollLogic = spec.pattern_type === 'repeating'
+    ? `- This is a repeating wallpaper with a ${spec.pattern_repeat_cm ?? 'unknown'}cm vertical pattern repeat (${spec.match_type ?? 'straight'} match).
+    - Drops of ${rollWidth}cm width are cut from ${spec.roll_length_cm}cm stock rolls.`
+    : `- This is a non-repeating panoramic wallpaper.
+    - Each "Roll" is exactly ONE unique vertical strip of ${rollWidth}cm width.
+    - Strips are printed in sequence (Strip 1, Strip 2, etc.).
+    - Partial strips required to cover a section count as ONE FULL unique roll.`;
+  const reportReference = `Report what you found in 'calibration': 'reference_found' (false if the object is not clearly visible), 'reference_box' as its [[x_min, y_min], [x_max, y_max]] in normalized 0-100 coordinates, the measured 'pixels_per_cm', and 'confidence' from 0 to 1 that this is the right object and fully visible.`;
+  const doorInstruction = `Identify the door leaf (the movable part) in the image. Its height is exactly ${refHeight}cm. Use this object to calibrate the scale (pixels per cm). ${reportReference}`;
+  const a4Instruction = `Identify the white A4 paper sheet. Its long edge is exactly 29.7cm. Use this to calibrate the scale (pixels per cm). ${reportReference}`;
+  const localScale = hasLocalScale(calibration) ? calibration : null;
+  const userLineInstruction = localScale
+    ? `The user has marked the reference edge from ${JSON.stringify(localScale.segment)} (normalized 0-100 coordinates), measuring exactly ${refHeight}cm. The resulting scale is ${localScale.pixels_per_cm.toFixed(3)} pixels per cm on a ${localScale.image_size.width}x${localScale.image_size.height} image. Use this scale; do not re-calibrate.`
+    : null;
+
+  // Convert boxes to lists of points (corners) for the prompt; perspective walls keep their true quad
+  const boxesAsPoints = userBoxes.map(regionCorners);
+
+  const prompt = `
+    Analyze the uploaded wallpaper design and room photo contextually.
+    
+    CRITICAL LUXURY ROLL LOGIC:
+    ${rollLogic}
+    
+    1. Spatial Scaling: ${userLineInstruction ?? (refType === 'A4_paper' ? a4Instruction : doorInstruction)}
+    2. Region Analysis: I have provided ${userBoxes.length} wall regions where the wallpaper should be applied. Each is four corners clockwise from top-left; walls photographed at an angle are perspective quadrilaterals, so measure their true width on the wall plane, not the width of their projection.
+    3. Measurement: 
+       - For each region, determine its maximum horizontal width and vertical height in real-world cm using the calibration scale.
+       - Return one region per box, in the same order as the boxes were provided.
+       - As a cross-check only, report your own strip count (sum of ceil(Horizontal Width in cm / ${rollWidth}) per region) as 'total_rolls_estimated'. The final roll count is computed by the application.
+    4. Wallpaper Scan: ${knownDimensions
+      ? `The wallpaper is a catalog product with known specifications: ${JSON.stringify(wallpaperSpec)}. Return exactly these values for 'wallpaper'; do not estimate them.`
+      : `Scan the wallpaper image for any specific width or numbering info. Default to ${rollWidth}cm per strip if not specified otherwise.`}
+    
+    User Boxes (Corners in Normalized 0-100 coordinates): ${JSON.stringify(boxesAsPoints)}
+
+    Return results in this JSON format:
+    {
+      "calibration": { "reference_type": "${refType}", "real_world_cm": ${refHeight}, "reference_found": true, "reference_box": [[x,y], [x,y]], "pixels_per_cm": 0, "confidence": 0 },
+      "wallpaper": ${JSON.stringify(spec)},
+      "regions": [
+        { "points": [[x,y], [x,y], [x,y], [x,y]], "width_cm": 0, "height_cm": 0, "area_sq_m": 0 }
+      ],
+      "total_rolls_estimated": 0
+    }
+  `;
+
+  // Points are in percentages, so the smaller API copies need no coordinate changes
+  const [room, paper] = await Promise.all([downscaleForApi(roomImage), downscaleForApi(wallpaperImage)]);
+
+  // Malformed or transient failures are retried with backoff; validation failures count as malformed
+  return withRetry(async () => {
+    const result = await getAIProvider().analyze({
+      roomImage: room,
+      wallpaperImage: paper,
+      prompt,
+      boxes: userBoxes,
+      calibration: calibration ?? { reference_type: refType as ReferenceType, real_world_cm: refHeight },
+      signal
+    });
+    assertAnalysisShape(result);
+
+    // Catalog product data and the chosen pattern mode always win over whatever the model read off the image
+    if (wallpaperSpec) {
+      result.wallpaper = { ...result.wallpaper, ...wallpaperSpec };
+    }
+
+    // With a user-drawn calibration line, dimensions are measured locally and the model's figures are discarded
+    if (localScale) {
+      result.calibration = { ...localScale };
+      result.regions = userBoxes.map(box => measureBox(box, localScale));
+    } else {
+      result.regions = result.regions.map((region, i) => userBoxes[i] ? { ...region, points: regionCorners(userBoxes[i]) } : region);
+    }
+    result.regions = result.regions.map((region, i) => userBoxes[i] ? applyExclusions(region, userBoxes[i]) : region);
+
+    return validateAnalysis(result, userBoxes.length);
+  }, DEFAULT_RETRY, signal);
+}
+
+// Re-expresses region and cut-out points in the coordinates of a letterboxed copy of the photo
+function toLetterbox(metadata: VisualizerState, frame: LetterboxFrame): VisualizerState {
+  const move = (p: Point): Point => [frame.x + (p[0] * frame.width) / 100, frame.y + (p[1] * frame.height) / 100];
+  return {
+    ...metadata,
+    regions: metadata.regions.map(region => ({
+      ...region,
+      points: region.points.map(move),
+      exclusions: region.exclusions?.map(e => ({ ...e, points: e.points.map(move) }))
+    }))
+  };
+}
+
+/**
+ * Generates the photorealistic preview specifically applied to the user's masked regions.
+ * The photo is letterboxed to the nearest supported aspect ratio and the render cropped back, so it lines up with the marked boxes.
+ */
+export async function generateMaskedVisualization(
+  roomImage: ImageUpload,
+  wallpaperImage: ImageUpload,
+  photoMetadata: VisualizerState,
+  size: RenderSize = '1K',
+  placement: CropWindow[] = [],
+  signal?: AbortSignal
+): Promise<string> {
+  const [scaled, paper] = await Promise.all([downscaleForApi(roomImage), downscaleForApi(wallpaperImage)]);
+  const { image: room, frame, aspectRatio } = await letterboxImage(scaled);
+  const letterboxed = frame.width < 100 || frame.height < 100;
+  const metadata = letterboxed ? toLetterbox(photoMetadata, frame) : photoMetadata;
+
+  const regionsJson = JSON.stringify(metadata.regions.map(r => r.points));
+  const cutouts = metadata.regions.flatMap(r => r.exclusions || []);
+  const cutoutsInstruction = cutouts.length > 0
+    ? `- EXCLUSIONS: Do NOT apply wallpaper inside these ${cutouts.length} cut-outs; keep the original window, door or fixture visible and trim the paper neatly around it: ${JSON.stringify(cutouts.map(c => ({ type: c.type, points: c.points })))}.`
+    : '';
+  // Crop windows are percentages of the wallpaper image, so letterboxing the room does not affect them
+  const round = (value: number) => Math.round(value * 10) / 10;
+  const panoramic = metadata.wallpaper.pattern_type !== 'repeating';
+  const placementInstruction = panoramic && placement.length > 0
+    ? `- PLACEMENT: The wallpaper image is the whole master artwork. Each region shows exactly this part of it, as percentages of the wallpaper image's width and height, with the top of the range at the top of the wall: ${JSON.stringify(placement.map(w => ({ region: w.region_index + 1, x: [round(w.x_from), round(w.x_to)], y: [round(w.y_from), round(w.y_to)] })))}. An x range past 100 wraps around and continues from the image's left edge; a y range past 100 runs below the bottom of the artwork, so leave that part of the wall in the artwork's bottom-edge ground colour. Follow each wall's perspective.`
+    : '- Render the pattern flowing naturally across the designated regions provided, following each wall\'s perspective.';
+  
+  const prompt = `
+    High-fidelity luxury wallpaper visualization.
+    TARGET AREAS: I have defined ${metadata.regions.length} specific wall regions (corners clockwise from top-left, normalized 0-100): ${regionsJson}.
+    
+    INSTALLATION SPEC:
+    - ${metadata.wallpaper.pattern_type === 'repeating'
+      ? `The wallpaper is a repeating pattern (${metadata.wallpaper.pattern_repeat_cm ?? 'unknown'}cm repeat, ${metadata.wallpaper.match_type ?? 'straight'} match) hung in ${metadata.wallpaper.roll_width_cm}cm drops; keep the repeat aligned across drops.`
+      : `The wallpaper is a sequential panorama of ${metadata.wallpaper.roll_width_cm}cm strips.`}
+    ${placementInstruction}
+    - Ensure correct 3D perspective, depth, and occlusion (wallpaper must sit BEHIND existing furniture/decor).
+    - Match room lighting and texture perfectly.
+    ${cutoutsInstruction}
+    ${letterboxed ? '- The photo has plain white bars added to fill the frame; leave them untouched and keep the room exactly where it is.' : ''}
+  `;
+
+  const rendered = await withRetry(() => getAIProvider().render({
+    roomImage: room, wallpaperImage: paper, prompt, metadata, aspectRatio: aspectRatio.label, size, signal
+  }), DEFAULT_RETRY, signal);
+  return cropToFrame(rendered, frame);
+}
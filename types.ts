@@ -4,30 +4,106 @@ export enum ReferenceType {
   DOOR_FRAME = 'Door'
 }
 
+export enum ExclusionType {
+  WINDOW = 'Window',
+  DOOR = 'Door',
+  RADIATOR = 'Radiator',
+  FIXTURE = 'Fixture'
+}
+
 export type Point = [number, number]; // [x, y] in percentages (0-100)
 
+export type Quad = [Point, Point, Point, Point]; // Clockwise from top-left
+
 export interface Box {
   start: Point;
   end: Point;
+  corners?: Quad; // Perspective wall quad; start/end then hold its bounding box
+  exclusions?: Exclusion[]; // Cut-outs inside this region that must not be papered
+}
+
+export interface Exclusion {
+  start: Point;
+  end: Point;
+  type: ExclusionType;
+}
+
+export interface ImageSize {
+  width: number; // natural pixel width
+  height: number; // natural pixel height
 }
 
 export interface CalibrationData {
   reference_type: ReferenceType;
   real_world_cm: number;
+  segment?: [Point, Point]; // User-drawn reference edge in percentages
+  pixels_per_cm?: number; // Derived locally from segment and image_size, or measured by the model on the copy it was sent
+  image_size?: ImageSize;
+  reference_found?: boolean; // Whether the model located the reference object at all
+  reference_box?: [Point, Point]; // Detected reference object, top-left and bottom-right in percentages
+  confidence?: number; // Model's 0-1 certainty in the detected reference; absent for user-drawn lines
+}
+
+// Why a model-detected calibration should not be trusted without a look
+export interface CalibrationIssue {
+  kind: 'not_found' | 'low_confidence';
+  confidence: number | null;
 }
 
+export type MatchType = 'straight' | 'half_drop' | 'random';
+
 export interface WallpaperMetadata {
   master_width_cm: number;
   master_height_cm: number;
   roll_width_cm: number;
   roll_length_cm: number;
+  pattern_type?: PatternType; // Absent means panoramic
+  pattern_repeat_cm?: number; // Vertical repeat of a repeating pattern
+  match_type?: MatchType;
+}
+
+export type PatternSpec = Pick<WallpaperMetadata, 'pattern_type' | 'pattern_repeat_cm' | 'match_type'>;
+
+// Wall area as proposed by the model, before it is turned into a box
+export interface DetectedWall {
+  label: string; // e.g. "Back wall left of the window"
+  points: Point[]; // Corners in percentages
+}
+
+// A detected wall waiting on the user to accept, edit or reject it
+export interface WallSuggestion {
+  id: string;
+  label: string;
+  box: Box;
+}
+
+export interface ExclusionGeometry {
+  type: ExclusionType;
+  points: Point[]; // Corners in image percentages
+  offset_x_cm: number; // From the region's left edge on the wall plane
+  offset_y_cm: number; // From the region's top edge on the wall plane
+  width_cm: number;
+  height_cm: number;
+  area_sq_m: number;
 }
 
 export interface RegionGeometry {
   points: Point[]; // Corners of the box
   width_cm: number;
   height_cm: number;
-  area_sq_m: number;
+  area_sq_m: number; // Net of exclusions
+  gross_area_sq_m?: number;
+  exclusions?: ExclusionGeometry[];
+}
+
+// A region taller than a single panel (or, for repeating papers, a drop cut from one roll) can cover
+export interface HeightWarning {
+  region_index: number;
+  height_cm: number;
+  panel_length_cm: number;
+  panels_per_strip: number; // Stacked panels per strip when hung with horizontal joins
+  extra_panels: number; // Panels beyond one per hung strip across the region
+  custom_length_cm: number; // Single-piece print length that covers the wall including trim
 }
 
 export interface VisualizerState {
@@ -37,7 +113,215 @@ export interface VisualizerState {
   total_rolls_estimated: number;
 }
 
+export type RenderSize = '1K' | '2K' | '4K';
+
+export type PipelineStageId = 'analysis' | 'render';
+
+export type StageStatus = 'idle' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface PipelineStage {
+  id: PipelineStageId;
+  status: StageStatus;
+  completed: number; // Photos analysed, or renders returned
+  total: number;
+  started_at: number | null; // Epoch ms
+  finished_at: number | null;
+}
+
+export type Pipeline = Record<PipelineStageId, PipelineStage>;
+
 export interface ImageUpload {
   data: string;
   mimeType: string;
+  width?: number; // Upright pixel size recorded at ingestion
+  height?: number;
+}
+
+export interface RegionEstimate {
+  region_index: number;
+  photo_index?: number; // Room photo the region was marked on, for room-wide estimates
+  width_cm: number;
+  height_cm: number;
+  strips: number;
+  full_strips: number;
+  partial_strips: number; // Cut around an opening
+  skipped_strips: number; // Entirely behind a full-height opening; never hung
+  drops_per_strip: number;
+  drop_length_cm: number | null; // Repeating patterns: cut length including repeat matching and trim
+  drops_per_roll: number | null; // Repeating patterns: whole drops one roll yields
+  rolls: number;
+  wall_area_sq_m: number;
+  paper_area_sq_m: number;
+  waste_sq_m: number;
+  waste_percent: number;
+}
+
+export interface RollEstimate {
+  pattern_type: PatternType;
+  regions: RegionEstimate[];
+  total_strips: number;
+  total_rolls: number;
+  wall_area_sq_m: number;
+  paper_area_sq_m: number;
+  waste_sq_m: number;
+  waste_percent: number;
+  model_total_rolls: number | null; // The model's own strip count, kept only for cross-checking against total_strips
+  model_disagrees: boolean;
+}
+
+export type PanoramaContinuity = 'continuous' | 'restart'; // Across corners, or each wall from the offset
+
+// Where the master artwork sits on the walls; also the panorama placement given to the render
+export interface StripPlanOptions {
+  start_offset_cm: number; // Into the master design, horizontally
+  continuity: PanoramaContinuity;
+  vertical_offset_cm: number; // From the top of the printed master down to the top of the walls
+  scale: number; // Printed size of the master relative to its catalog dimensions
+}
+
+export interface PlannedStrip {
+  number: number | null; // Hanging order; null for strips never hung
+  region_index: number;
+  photo_index?: number; // Room photo the region was marked on, for room-wide plans
+  column_index: number;
+  kind: 'full' | 'partial' | 'skipped';
+  wall_from_cm: number; // Across the region, from its left edge
+  wall_to_cm: number;
+  design_from_cm: number; // Within the master panorama
+  design_to_cm: number;
+  design_top_cm: number; // Down the printed master
+  design_bottom_cm: number;
+  points: Point[]; // Strip outline on the room photo, in percentages
+}
+
+// The part of the master artwork one wall shows, in percentages of the wallpaper image
+export interface CropWindow {
+  region_index: number;
+  photo_index?: number;
+  x_from: number;
+  x_to: number; // Past 100 where the panorama wraps back to its left edge
+  y_from: number;
+  y_to: number; // Past 100 where the wall runs below the bottom of the design
+}
+
+export interface StripPlan {
+  options: StripPlanOptions;
+  strips: PlannedStrip[];
+  windows: CropWindow[]; // One per region, in hanging order
+  hung_strips: number;
+}
+
+export interface ProjectCalibration {
+  reference_type: ReferenceType;
+  ref_height_cm: number; // Door leaf height entered by the user
+  segment: [Point, Point] | null;
+}
+
+// One photograph of the room with its own marked walls, reference scale and results
+export interface RoomPhoto {
+  id: string;
+  image: ImageUpload;
+  image_size: ImageSize | null; // Natural pixel size, recorded once the photo has loaded
+  boxes: Box[];
+  calibration: ProjectCalibration;
+  analysis: VisualizerState | null;
+  rendered_image: string | null; // The chosen render; one of render_candidates when several were requested
+  render_candidates?: string[];
+  suggestions?: WallSuggestion[]; // Pending detected walls not yet accepted or rejected
+}
+
+// A further design rendered on the same walls, measured once, for side-by-side comparison
+export interface DesignVariant {
+  id: string;
+  name: string;
+  image: ImageUpload;
+  design_id: string | null;
+  spec: Partial<WallpaperMetadata>; // Catalog dimensions or the upload's declared pattern
+  renders: Record<string, string>; // Keyed by room photo id
+}
+
+export interface PricingSettings {
+  currency: string; // ISO 4217 code the quote is issued in
+  roll_price: number;
+  roll_price_currency: string; // Catalog prices may be listed in another currency
+  extras_currency: string; // Adhesive, lining, labour and shipping rates are entered in it and converted like the roll price
+  overage_percent: number; // Extra rolls ordered as a waste allowance
+  adhesive_per_roll: number;
+  lining_per_sq_m: number; // Zero leaves lining paper off the quote
+  labour_per_sq_m: number;
+  shipping: number;
+  tax_percent: number;
+  exchange_rates: Record<string, number>; // Units of each currency per one GBP
+}
+
+export interface QuoteLine {
+  label: string;
+  quantity: number;
+  unit: string;
+  unit_price: number; // In the quote currency
+  total: number;
+}
+
+export interface Quote {
+  currency: string;
+  lines: QuoteLine[];
+  roll_price_missing: boolean; // The wallpaper line is listed at no charge until a roll price is set
+  subtotal: number;
+  tax_percent: number;
+  tax: number;
+  total: number;
+}
+
+export interface VisualizerProject {
+  version: number;
+  id: string;
+  name: string;
+  created_at: string; // ISO timestamps
+  updated_at: string;
+  photos: RoomPhoto[]; // In hanging order around the room
+  wallpaper_image: ImageUpload | null;
+  design_id?: string | null; // Catalog design the wallpaper image came from
+  variants?: DesignVariant[]; // Alternatives compared against the wallpaper above
+  strip_plan_options: StripPlanOptions;
+  pricing?: PricingSettings;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updated_at: string;
+  photo_count: number;
+  wall_count: number;
+  has_render: boolean;
+}
+
+export type PatternType = 'panoramic' | 'repeating';
+
+export interface DesignPrice {
+  amount: number; // Per roll
+  currency: string; // ISO 4217 code
+}
+
+export type Language = 'en' | 'fr';
+
+export type UnitSystem = 'metric' | 'imperial'; // Display and entry only; every stored length stays in cm
+
+export interface Preferences {
+  language: Language;
+  unit_system: UnitSystem;
+}
+
+export interface WallpaperDesign {
+  id: string;
+  sku: string;
+  name: string;
+  image: ImageUpload;
+  pattern_type: PatternType;
+  pattern_repeat_cm?: number;
+  match_type?: MatchType;
+  roll_width_cm: number;
+  roll_length_cm: number;
+  master_width_cm: number;
+  master_height_cm: number;
+  price: DesignPrice;
 }